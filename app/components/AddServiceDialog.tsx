@@ -4,6 +4,16 @@ import { useState } from 'react';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { X } from 'lucide-react';
 
+// Commands for the runtime presets; 'node' runs the entry point directly
+const RUNTIME_COMMANDS: Record<string, string> = {
+  node: '',
+  python: 'python3',
+  uvx: 'uvx',
+  npx: 'npx',
+  bun: 'bun',
+  deno: 'deno',
+};
+
 interface AddServiceDialogProps {
   open: boolean;
   onClose: () => void;
@@ -13,7 +23,22 @@ export function AddServiceDialog({ open, onClose }: AddServiceDialogProps) {
   const queryClient = useQueryClient();
   const [formData, setFormData] = useState({
     name: '',
+    type: 'local',
+    runtime: 'node',
+    command: '',
+    args: '',
+    workingDirectory: '',
     entryPoint: '',
+    remoteUrl: '',
+    remoteTransport: 'streamable-http',
+    remoteHeaders: '',
+    bearerToken: '',
+    processMode: 'shared',
+    maxSessions: '10',
+    replicas: '1',
+    sessionAffinity: true,
+    idleTimeout: '0',
+    restartPolicy: 'on-failure',
     proxyPath: '',
     environment: '',
     autoStart: true,
@@ -26,15 +51,34 @@ export function AddServiceDialog({ open, onClose }: AddServiceDialogProps) {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           name: data.name,
+          type: data.type,
           repository: {
-            entryPoint: data.entryPoint,
+            entryPoint: data.type === 'local' && data.runtime === 'node' ? data.entryPoint : '',
             path: './',
           },
+          runtime: data.type === 'local' ? {
+            command: data.runtime === 'custom' ? data.command : RUNTIME_COMMANDS[data.runtime] || undefined,
+            args: data.args.split('\n').map((arg: string) => arg.trim()).filter(Boolean),
+            workingDirectory: data.workingDirectory || undefined,
+          } : undefined,
           environment: data.environment ? JSON.parse(data.environment) : {},
+          remote: data.type === 'remote' ? {
+            url: data.remoteUrl,
+            transport: data.remoteTransport,
+            headers: data.remoteHeaders ? JSON.parse(data.remoteHeaders) : {},
+            bearerToken: data.bearerToken || undefined,
+          } : undefined,
           proxy: {
             path: data.proxyPath,
           },
-          process: {},
+          process: {
+            mode: data.processMode,
+            maxSessions: parseInt(data.maxSessions) || 10,
+            replicas: parseInt(data.replicas) || 1,
+            sessionAffinity: data.sessionAffinity,
+            idleTimeout: parseInt(data.idleTimeout) || 0,
+            restartPolicy: data.restartPolicy,
+          },
           autoStart: data.autoStart,
         }),
       });
@@ -46,7 +90,22 @@ export function AddServiceDialog({ open, onClose }: AddServiceDialogProps) {
       onClose();
       setFormData({
         name: '',
+        type: 'local',
+        runtime: 'node',
+        command: '',
+        args: '',
+        workingDirectory: '',
         entryPoint: '',
+        remoteUrl: '',
+        remoteTransport: 'streamable-http',
+        remoteHeaders: '',
+        bearerToken: '',
+        processMode: 'shared',
+        maxSessions: '10',
+        replicas: '1',
+        sessionAffinity: true,
+        idleTimeout: '0',
+        restartPolicy: 'on-failure',
         proxyPath: '',
         environment: '',
         autoStart: true,
@@ -96,18 +155,213 @@ export function AddServiceDialog({ open, onClose }: AddServiceDialogProps) {
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
-                Entry Point
+                Service Type
               </label>
-              <input
-                type="text"
-                required
-                placeholder="index.js"
-                value={formData.entryPoint}
-                onChange={(e) => setFormData({ ...formData, entryPoint: e.target.value })}
+              <select
+                value={formData.type}
+                onChange={(e) => setFormData({ ...formData, type: e.target.value })}
                 className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
-              />
+              >
+                <option value="local">Local process</option>
+                <option value="remote">Remote MCP server</option>
+              </select>
             </div>
 
+            {formData.type === 'local' ? (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Runtime
+                  </label>
+                  <select
+                    value={formData.runtime}
+                    onChange={(e) => setFormData({ ...formData, runtime: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    <option value="node">Node.js</option>
+                    <option value="python">Python</option>
+                    <option value="uvx">uvx</option>
+                    <option value="npx">npx</option>
+                    <option value="bun">Bun</option>
+                    <option value="deno">Deno</option>
+                    <option value="custom">Custom command / binary</option>
+                  </select>
+                </div>
+
+                {formData.runtime === 'node' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Entry Point
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      placeholder="index.js"
+                      value={formData.entryPoint}
+                      onChange={(e) => setFormData({ ...formData, entryPoint: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                )}
+
+                {formData.runtime === 'custom' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Command
+                    </label>
+                    <input
+                      type="text"
+                      required
+                      placeholder="/usr/local/bin/my-mcp-server"
+                      value={formData.command}
+                      onChange={(e) => setFormData({ ...formData, command: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Arguments (one per line)
+                  </label>
+                  <textarea
+                    placeholder={formData.runtime === 'npx' ? '-y\n@modelcontextprotocol/server-filesystem\n/data' : 'mcp-server-fetch'}
+                    value={formData.args}
+                    onChange={(e) => setFormData({ ...formData, args: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    rows={3}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Working Directory
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="Defaults to the service directory"
+                    value={formData.workingDirectory}
+                    onChange={(e) => setFormData({ ...formData, workingDirectory: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Process Mode
+                  </label>
+                  <select
+                    value={formData.processMode}
+                    onChange={(e) => setFormData({ ...formData, processMode: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    <option value="shared">Shared by all clients</option>
+                    <option value="isolated">Isolated process per session</option>
+                  </select>
+                </div>
+
+                {formData.processMode === 'isolated' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                      Max Sessions
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.maxSessions}
+                      onChange={(e) => setFormData({ ...formData, maxSessions: e.target.value })}
+                      className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Replicas
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={formData.replicas}
+                        onChange={(e) => setFormData({ ...formData, replicas: e.target.value })}
+                        className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                      />
+                    </div>
+
+                    {parseInt(formData.replicas) > 1 && (
+                      <div className="flex items-center">
+                        <input
+                          type="checkbox"
+                          id="sessionAffinity"
+                          checked={formData.sessionAffinity}
+                          onChange={(e) => setFormData({ ...formData, sessionAffinity: e.target.checked })}
+                          className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <label htmlFor="sessionAffinity" className="ml-2 block text-sm text-gray-900 dark:text-gray-300">
+                          Keep each session on one replica
+                        </label>
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Remote URL
+                  </label>
+                  <input
+                    type="url"
+                    required
+                    placeholder="https://example.com/mcp"
+                    value={formData.remoteUrl}
+                    onChange={(e) => setFormData({ ...formData, remoteUrl: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Transport
+                  </label>
+                  <select
+                    value={formData.remoteTransport}
+                    onChange={(e) => setFormData({ ...formData, remoteTransport: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    <option value="streamable-http">Streamable HTTP</option>
+                    <option value="sse">HTTP + SSE (legacy)</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Bearer Token
+                  </label>
+                  <input
+                    type="password"
+                    value={formData.bearerToken}
+                    onChange={(e) => setFormData({ ...formData, bearerToken: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    Upstream Headers (JSON)
+                  </label>
+                  <textarea
+                    placeholder='{"X-Api-Key": "value"}'
+                    value={formData.remoteHeaders}
+                    onChange={(e) => setFormData({ ...formData, remoteHeaders: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                    rows={2}
+                  />
+                </div>
+              </>
+            )}
+
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                 Proxy Path
@@ -135,6 +389,35 @@ export function AddServiceDialog({ open, onClose }: AddServiceDialogProps) {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Idle Timeout (seconds)
+              </label>
+              <input
+                type="number"
+                min="0"
+                placeholder="0 keeps the service running"
+                value={formData.idleTimeout}
+                onChange={(e) => setFormData({ ...formData, idleTimeout: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Restart Policy
+              </label>
+              <select
+                value={formData.restartPolicy}
+                onChange={(e) => setFormData({ ...formData, restartPolicy: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+              >
+                <option value="on-failure">Restart when it crashes</option>
+                <option value="always">Always restart</option>
+                <option value="never">Never restart</option>
+              </select>
+            </div>
+
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -1,7 +1,7 @@
 'use client';
 
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { Play, Square, RefreshCw, Trash2, Settings, Activity, AlertCircle } from 'lucide-react';
+import { Play, Square, RefreshCw, Trash2, Settings, Activity, AlertCircle, Moon } from 'lucide-react';
 import { useState } from 'react';
 import { ServiceDetailsDialog } from './ServiceDetailsDialog';
 
@@ -68,9 +68,14 @@ export function ServiceCard({ service }: ServiceCardProps) {
       case 'stopped':
         return 'text-gray-600 bg-gray-100';
       case 'crashed':
+      case 'failed':
         return 'text-red-600 bg-red-100';
       case 'restarting':
         return 'text-yellow-600 bg-yellow-100';
+      case 'unhealthy':
+        return 'text-orange-600 bg-orange-100';
+      case 'idle':
+        return 'text-blue-600 bg-blue-100';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -81,9 +86,13 @@ export function ServiceCard({ service }: ServiceCardProps) {
       case 'running':
         return <Activity className="h-4 w-4" />;
       case 'crashed':
+      case 'failed':
+      case 'unhealthy':
         return <AlertCircle className="h-4 w-4" />;
       case 'restarting':
         return <RefreshCw className="h-4 w-4 animate-spin" />;
+      case 'idle':
+        return <Moon className="h-4 w-4" />;
       default:
         return <Square className="h-4 w-4" />;
     }
@@ -108,11 +117,17 @@ export function ServiceCard({ service }: ServiceCardProps) {
           
           <div className="text-sm text-gray-500 dark:text-gray-400 mb-4">
             <p className="truncate">Path: {service.proxyPath}</p>
+            {service.type === 'remote' && (
+              <p className="truncate">Upstream: {service.remoteUrl}</p>
+            )}
             {service.metrics && (
               <div className="mt-2 space-y-1">
-                <p>PID: {service.metrics.pid}</p>
+                {service.metrics.pid && <p>PID: {service.metrics.pid}</p>}
                 <p>Uptime: {Math.floor(service.metrics.uptime / 1000)}s</p>
                 <p>Restarts: {service.metrics.restartCount}</p>
+                {service.metrics.memoryUsage > 0 && (
+                  <p>Memory: {(service.metrics.memoryUsage / 1024 / 1024).toFixed(1)} MB</p>
+                )}
               </div>
             )}
           </div>
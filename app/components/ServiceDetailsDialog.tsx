@@ -1,8 +1,103 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { X, Terminal, Activity, Settings } from 'lucide-react';
+import { X, Terminal, Activity, Settings, Pause, Play } from 'lucide-react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+
+interface LogLine {
+  timestamp: string;
+  level: string;
+  message: string;
+}
+
+// Lines kept in the viewer; older ones scroll out
+const MAX_LOG_LINES = 1000;
+
+// Each option shows its level and everything more severe
+const LEVEL_FILTERS: Record<string, string> = {
+  all: '',
+  error: 'error',
+  warn: 'error,warn',
+  info: 'error,warn,info',
+};
+
+const LEVEL_COLORS: Record<string, string> = {
+  error: 'text-red-400',
+  warn: 'text-yellow-400',
+  info: 'text-gray-300',
+  debug: 'text-gray-500',
+};
+
+interface MetricPoint {
+  timestamp: string;
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  requestCount: number;
+  errorCount: number;
+  avgResponseTime: number | null;
+}
+
+// Chart ranges in milliseconds
+const METRIC_RANGES: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+function formatTime(timestamp: string, range: string) {
+  const date = new Date(timestamp);
+  return range === '7d'
+    ? date.toLocaleDateString([], { month: 'short', day: 'numeric', hour: '2-digit' })
+    : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+interface MetricChartProps {
+  title: string;
+  data: any[];
+  range: string;
+  lines: { key: string; name: string; color: string }[];
+  unit?: string;
+}
+
+function MetricChart({ title, data, range, lines, unit }: MetricChartProps) {
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+      <div className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{title}</div>
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" strokeOpacity={0.3} />
+            <XAxis
+              dataKey="timestamp"
+              tickFormatter={(value) => formatTime(value, range)}
+              tick={{ fontSize: 11 }}
+              minTickGap={30}
+            />
+            <YAxis tick={{ fontSize: 11 }} width={45} unit={unit} />
+            <Tooltip
+              labelFormatter={(value) => new Date(value).toLocaleString()}
+              formatter={(value: number) => (unit ? `${Number(value).toFixed(1)}${unit}` : value)}
+            />
+            {lines.map(line => (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={line.key}
+                name={line.name}
+                stroke={line.color}
+                dot={false}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
 
 interface ServiceDetailsDialogProps {
   service: any;
@@ -12,32 +107,82 @@ interface ServiceDetailsDialogProps {
 
 export function ServiceDetailsDialog({ service, open, onClose }: ServiceDetailsDialogProps) {
   const [activeTab, setActiveTab] = useState('logs');
-  const [logStream, setLogStream] = useState<string[]>([]);
+  const [logLines, setLogLines] = useState<LogLine[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [heldLines, setHeldLines] = useState<LogLine[]>([]);
+  const [levelFilter, setLevelFilter] = useState('all');
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [metricRange, setMetricRange] = useState('1h');
+  const pausedRef = useRef(false);
+  const logEndRef = useRef<HTMLDivElement>(null);
 
-  const { data: logs } = useQuery({
-    queryKey: ['logs', service.id],
+  const { data: metricSeries } = useQuery<{ step: number; points: MetricPoint[] }>({
+    queryKey: ['service-metrics', service.id, metricRange],
     queryFn: async () => {
-      const res = await fetch(`/api/services/${service.id}/logs?limit=100`);
-      if (!res.ok) throw new Error('Failed to fetch logs');
+      const from = new Date(Date.now() - METRIC_RANGES[metricRange]).toISOString();
+      const res = await fetch(`/api/services/${service.id}/metrics?from=${encodeURIComponent(from)}`, {
+        headers: { 'X-API-Key': process.env.NEXT_PUBLIC_API_KEY || '' },
+      });
+      if (!res.ok) throw new Error('Failed to fetch metrics');
       return res.json();
     },
-    enabled: open && activeTab === 'logs',
+    enabled: open && activeTab === 'metrics',
+    refetchInterval: 60000,
   });
 
+  const chartData = (metricSeries?.points ?? []).map(point => ({
+    ...point,
+    memoryUsage: point.memoryUsage !== null ? point.memoryUsage / 1024 / 1024 : null,
+  }));
+
+  // Searching reconnects the stream, so wait for typing to settle
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedSearch(search), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
   useEffect(() => {
     if (!open || activeTab !== 'logs') return;
 
-    const ws = new WebSocket(`ws://localhost:8080/api/services/${service.id}/logs/stream`);
-    
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      setLogStream(prev => [...prev.slice(-99), `[${data.timestamp}] ${data.message}`]);
-    };
+    const params = new URLSearchParams({ backfill: '200' });
+    if (LEVEL_FILTERS[levelFilter]) params.set('level', LEVEL_FILTERS[levelFilter]);
+    if (appliedSearch) params.set('search', appliedSearch);
+    if (process.env.NEXT_PUBLIC_API_KEY) params.set('api_key', process.env.NEXT_PUBLIC_API_KEY);
+
+    setLogLines([]);
+    setHeldLines([]);
+
+    const source = new EventSource(`/api/services/${service.id}/logs/stream?${params}`);
+
+    source.addEventListener('log', (event) => {
+      const line: LogLine = JSON.parse((event as MessageEvent).data);
+      if (pausedRef.current) {
+        setHeldLines(prev => [...prev, line].slice(-MAX_LOG_LINES));
+      } else {
+        setLogLines(prev => [...prev, line].slice(-MAX_LOG_LINES));
+      }
+    });
 
     return () => {
-      ws.close();
+      source.close();
     };
-  }, [open, activeTab, service.id]);
+  }, [open, activeTab, service.id, levelFilter, appliedSearch]);
+
+  useEffect(() => {
+    if (!paused) {
+      logEndRef.current?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [logLines, paused]);
+
+  const togglePaused = () => {
+    if (paused) {
+      setLogLines(prev => [...prev, ...heldLines].slice(-MAX_LOG_LINES));
+      setHeldLines([]);
+    }
+    pausedRef.current = !paused;
+    setPaused(!paused);
+  };
 
   if (!open) return null;
 
@@ -100,20 +245,43 @@ export function ServiceDetailsDialog({ service, open, onClose }: ServiceDetailsD
           <div className="flex-1 overflow-auto p-6">
             {activeTab === 'logs' && (
               <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={togglePaused}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600"
+                  >
+                    {paused ? <Play className="h-4 w-4 mr-1" /> : <Pause className="h-4 w-4 mr-1" />}
+                    {paused ? `Resume${heldLines.length > 0 ? ` (${heldLines.length} new)` : ''}` : 'Pause'}
+                  </button>
+                  <select
+                    value={levelFilter}
+                    onChange={(e) => setLevelFilter(e.target.value)}
+                    className="block rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    <option value="all">All levels</option>
+                    <option value="info">Info and above</option>
+                    <option value="warn">Warnings and errors</option>
+                    <option value="error">Errors only</option>
+                  </select>
+                  <input
+                    type="search"
+                    placeholder="Search logs"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="block flex-1 rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  />
+                </div>
                 <div className="bg-gray-900 rounded-lg p-4 font-mono text-sm text-gray-300 max-h-96 overflow-auto">
-                  {logStream.length > 0 ? (
-                    logStream.map((log, i) => (
-                      <div key={i} className="whitespace-pre-wrap">{log}</div>
-                    ))
-                  ) : logs?.length > 0 ? (
-                    logs.map((log: any, i: number) => (
-                      <div key={i} className="whitespace-pre-wrap">
+                  {logLines.length > 0 ? (
+                    logLines.map((log, i) => (
+                      <div key={i} className={`whitespace-pre-wrap ${LEVEL_COLORS[log.level] ?? ''}`}>
                         [{log.timestamp}] [{log.level}] {log.message}
                       </div>
                     ))
                   ) : (
                     <div className="text-gray-500">No logs available</div>
                   )}
+                  <div ref={logEndRef} />
                 </div>
               </div>
             )}
@@ -125,7 +293,7 @@ export function ServiceDetailsDialog({ service, open, onClose }: ServiceDetailsD
                     <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
                       <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Process ID</div>
                       <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
-                        {service.metrics.pid}
+                        {service.metrics.pid ?? '—'}
                       </div>
                     </div>
                     <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
@@ -146,10 +314,72 @@ export function ServiceDetailsDialog({ service, open, onClose }: ServiceDetailsD
                         {service.status}
                       </div>
                     </div>
+                    <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+                      <div className="text-sm font-medium text-gray-500 dark:text-gray-400">Memory (RSS)</div>
+                      <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                        {(service.metrics.memoryUsage / 1024 / 1024).toFixed(1)} MB
+                      </div>
+                    </div>
+                    <div className="bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+                      <div className="text-sm font-medium text-gray-500 dark:text-gray-400">CPU</div>
+                      <div className="mt-1 text-2xl font-semibold text-gray-900 dark:text-white">
+                        {service.metrics.cpuUsage.toFixed(1)}%
+                      </div>
+                    </div>
                   </div>
                 ) : (
                   <div className="text-gray-500">Service is not running</div>
                 )}
+
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium text-gray-900 dark:text-white">History</h4>
+                  <select
+                    value={metricRange}
+                    onChange={(e) => setMetricRange(e.target.value)}
+                    className="block rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-blue-500 focus:ring-blue-500 sm:text-sm"
+                  >
+                    <option value="1h">Last hour</option>
+                    <option value="6h">Last 6 hours</option>
+                    <option value="24h">Last 24 hours</option>
+                    <option value="7d">Last 7 days</option>
+                  </select>
+                </div>
+                {chartData.length > 0 ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <MetricChart
+                      title="CPU"
+                      data={chartData}
+                      range={metricRange}
+                      unit="%"
+                      lines={[{ key: 'cpuUsage', name: 'CPU', color: '#3b82f6' }]}
+                    />
+                    <MetricChart
+                      title="Memory (RSS)"
+                      data={chartData}
+                      range={metricRange}
+                      unit=" MB"
+                      lines={[{ key: 'memoryUsage', name: 'Memory', color: '#8b5cf6' }]}
+                    />
+                    <MetricChart
+                      title={`Requests per ${metricSeries!.step >= 3600 ? `${metricSeries!.step / 3600}h` : `${metricSeries!.step / 60}m`}`}
+                      data={chartData}
+                      range={metricRange}
+                      lines={[
+                        { key: 'requestCount', name: 'Requests', color: '#10b981' },
+                        { key: 'errorCount', name: 'Errors', color: '#ef4444' },
+                      ]}
+                    />
+                    <MetricChart
+                      title="Average Response Time"
+                      data={chartData}
+                      range={metricRange}
+                      unit=" ms"
+                      lines={[{ key: 'avgResponseTime', name: 'Response time', color: '#f59e0b' }]}
+                    />
+                  </div>
+                ) : (
+                  <div className="text-gray-500">No metrics recorded in this range</div>
+                )}
               </div>
             )}
 
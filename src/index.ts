@@ -16,6 +16,10 @@ import { HTTPSServer } from './server/https-server';
 import { configManager } from './lib/config-manager';
 import { db, runMigrations } from './lib/db/index';
 import { services } from './lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { flushServiceLogs, startLogRetention } from './lib/service-logs';
+import { renderMetrics } from './lib/telemetry';
+import { startMetricsCollector } from './lib/service-metrics';
 import { logger } from './lib/logger';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -85,13 +89,25 @@ async function main() {
       const config = {
         id: service.id,
         name: service.name,
+        type: service.type === 'remote' ? 'remote' as const : 'local' as const,
         repository: {
           url: service.repositoryUrl || '',
           branch: service.repositoryBranch || 'main',
           path: service.repositoryPath || './',
           entryPoint: service.entryPoint,
         },
+        runtime: {
+          command: service.command || undefined,
+          args: JSON.parse(service.args || '[]'),
+          workingDirectory: service.workingDirectory || undefined,
+        },
         environment: JSON.parse(service.environment || '{}'),
+        remote: service.remoteUrl ? {
+          url: service.remoteUrl,
+          transport: service.remoteTransport === 'sse' ? 'sse' as const : 'streamable-http' as const,
+          headers: JSON.parse(configManager.decryptStored(service.remoteHeaders || '{}')),
+          bearerToken: service.remoteBearerToken ? configManager.decryptStored(service.remoteBearerToken) : undefined,
+        } : undefined,
         proxy: {
           path: service.proxyPath,
           rateLimit: service.rateLimit || 100,
@@ -100,21 +116,49 @@ async function main() {
         },
         process: {
           autoRestart: service.autoRestart !== false,
-          maxRestarts: service.maxRestarts || 5,
+          restartPolicy: service.restartPolicy === 'always' ? 'always' as const
+            : service.restartPolicy === 'never' ? 'never' as const
+            : 'on-failure' as const,
+          maxRestarts: service.maxRestarts ?? 5,
+          restartBackoff: service.restartBackoff ?? 1,
+          restartBackoffMax: service.restartBackoffMax ?? 30,
+          stableUptime: service.stableUptime ?? 300,
           maxMemory: service.maxMemory || '512MB',
-          healthCheckInterval: service.healthCheckInterval || 30,
+          memoryPolicy: service.memoryPolicy === 'kill' ? 'kill' as const : 'restart' as const,
+          healthCheckInterval: service.healthCheckInterval ?? 30,
+          healthCheckMethod: service.healthCheckMethod === 'tools/list' ? 'tools/list' as const : 'ping' as const,
+          healthCheckThreshold: service.healthCheckThreshold || 3,
+          mode: service.processMode === 'isolated' ? 'isolated' as const : 'shared' as const,
+          maxSessions: service.maxSessions || 10,
+          sessionIdleTimeout: service.sessionIdleTimeout || 600,
+          replicas: service.replicas || 1,
+          sessionAffinity: service.sessionAffinity !== false,
+          idleTimeout: service.idleTimeout || 0,
+          coldStartTimeout: service.coldStartTimeout || 60,
         },
       };
       
       const process = await processManager.addProcess(config);
+
+      // Nothing runs yet, whatever the row last recorded. Rows from before
+      // desired states were kept go by their last status instead
+      const desiredState = service.desiredState ?? (service.status === 'running' ? 'running' : 'stopped');
+      await db.update(services)
+        .set({ status: 'stopped', desiredState })
+        .where(eq(services.id, service.id));
       
-      if (service.status === 'running') {
+      if (desiredState === 'running') {
         await process.start().catch(err => {
           logger.error(`Failed to start service ${service.id}:`, err);
         });
       }
     }
     logger.info(`Loaded ${dbServices.length} services from database`);
+
+    startLogRetention(config.monitoring.retentionDays);
+    if (config.monitoring.enableMetrics) {
+      startMetricsCollector(processManager, config.monitoring.metricsInterval, config.monitoring.retentionDays);
+    }
     
     const app = new Hono();
     
@@ -150,6 +194,13 @@ async function main() {
       });
     });
     
+    // Prometheus scrape target
+    app.get('/metrics', (c) => {
+      return c.text(renderMetrics(processManager), 200, {
+        'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+      });
+    });
+    
     // Use ports from configuration
     const httpPort = config.server.backendPort;
     const httpsPort = config.server.httpsPort;
@@ -199,6 +250,7 @@ async function main() {
       await tunnelManager.stop();
       await upnpManager.cleanup();
       await processManager.stopAll();
+      await flushServiceLogs();
       await httpsServer.stop();
       process.exit(0);
     });
@@ -208,6 +260,7 @@ async function main() {
       await tunnelManager.stop();
       await upnpManager.cleanup();
       await processManager.stopAll();
+      await flushServiceLogs();
       await httpsServer.stop();
       process.exit(0);
     });
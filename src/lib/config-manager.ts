@@ -304,15 +304,25 @@ class ConfigManager {
     return secretFields.includes(key);
   }
 
-  private encrypt(value: string): string {
+  // Also used for credentials stored with services
+  encrypt(value: string): string {
     return CryptoJS.AES.encrypt(value, this.encryptionKey).toString();
   }
 
-  private decrypt(encrypted: string): string {
+  decrypt(encrypted: string): string {
     const bytes = CryptoJS.AES.decrypt(encrypted, this.encryptionKey);
     return bytes.toString(CryptoJS.enc.Utf8);
   }
 
+  /**
+   * Decrypts a value written by encrypt(). Values stored before they were
+   * encrypted are returned unchanged.
+   */
+  decryptStored(value: string): string {
+    // Base64 of the "Salted__" header CryptoJS writes first
+    return value.startsWith('U2FsdGVkX1') ? this.decrypt(value) : value;
+  }
+
   private getFieldDescription(key: string): string {
     const descriptions: Record<string, string> = {
       'server.backendPort': 'Main backend API port',
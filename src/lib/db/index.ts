@@ -18,6 +18,22 @@ if (!fs.existsSync(dbDir)) {
 const sqlite = new Database(dbPath);
 export const db = drizzle(sqlite, { schema });
 
+/**
+ * Adds columns introduced after a development database was first created,
+ * since CREATE TABLE IF NOT EXISTS leaves existing tables untouched.
+ */
+function addMissingColumns(table: string, columns: Record<string, string>) {
+  const existing = new Set(
+    (sqlite.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(column => column.name),
+  );
+
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.has(name)) {
+      sqlite.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition}`);
+    }
+  }
+}
+
 export async function runMigrations() {
   const migrationsFolder = path.join(__dirname, '../../migrations');
 
@@ -44,26 +60,83 @@ export async function runMigrations() {
         CREATE TABLE IF NOT EXISTS services (
           id TEXT PRIMARY KEY,
           name TEXT NOT NULL,
+          type TEXT DEFAULT 'local',
           repository_url TEXT,
           repository_branch TEXT DEFAULT 'main',
           repository_path TEXT DEFAULT './',
           entry_point TEXT NOT NULL,
+          command TEXT,
+          args TEXT DEFAULT '[]',
+          working_directory TEXT,
           environment TEXT DEFAULT '{}',
+          remote_url TEXT,
+          remote_transport TEXT DEFAULT 'streamable-http',
+          remote_headers TEXT DEFAULT '{}',
+          remote_bearer_token TEXT,
           proxy_path TEXT NOT NULL UNIQUE,
           rate_limit INTEGER DEFAULT 100,
           cache_ttl INTEGER DEFAULT 300,
           timeout INTEGER DEFAULT 30000,
           auto_restart INTEGER DEFAULT 1,
+          restart_policy TEXT DEFAULT 'on-failure',
           max_restarts INTEGER DEFAULT 5,
+          restart_backoff INTEGER DEFAULT 1,
+          restart_backoff_max INTEGER DEFAULT 30,
+          stable_uptime INTEGER DEFAULT 300,
           max_memory TEXT DEFAULT '512MB',
+          memory_policy TEXT DEFAULT 'restart',
           health_check_interval INTEGER DEFAULT 30,
+          health_check_method TEXT DEFAULT 'ping',
+          health_check_threshold INTEGER DEFAULT 3,
+          process_mode TEXT DEFAULT 'shared',
+          max_sessions INTEGER DEFAULT 10,
+          session_idle_timeout INTEGER DEFAULT 600,
+          replicas INTEGER DEFAULT 1,
+          session_affinity INTEGER DEFAULT 1,
+          idle_timeout INTEGER DEFAULT 0,
+          cold_start_timeout INTEGER DEFAULT 60,
           status TEXT DEFAULT 'stopped',
+          desired_state TEXT,
+          status_changed_at TEXT,
           last_error TEXT,
+          last_exit_code INTEGER,
+          last_exit_signal TEXT,
+          last_exit_at TEXT,
           created_at TEXT DEFAULT CURRENT_TIMESTAMP,
           updated_at TEXT DEFAULT CURRENT_TIMESTAMP
         )
       `);
 
+      addMissingColumns('services', {
+        type: "TEXT DEFAULT 'local'",
+        remote_url: 'TEXT',
+        remote_transport: "TEXT DEFAULT 'streamable-http'",
+        remote_headers: "TEXT DEFAULT '{}'",
+        remote_bearer_token: 'TEXT',
+        command: 'TEXT',
+        args: "TEXT DEFAULT '[]'",
+        working_directory: 'TEXT',
+        process_mode: "TEXT DEFAULT 'shared'",
+        max_sessions: 'INTEGER DEFAULT 10',
+        session_idle_timeout: 'INTEGER DEFAULT 600',
+        replicas: 'INTEGER DEFAULT 1',
+        session_affinity: 'INTEGER DEFAULT 1',
+        idle_timeout: 'INTEGER DEFAULT 0',
+        cold_start_timeout: 'INTEGER DEFAULT 60',
+        memory_policy: "TEXT DEFAULT 'restart'",
+        health_check_method: "TEXT DEFAULT 'ping'",
+        health_check_threshold: 'INTEGER DEFAULT 3',
+        restart_policy: "TEXT DEFAULT 'on-failure'",
+        restart_backoff: 'INTEGER DEFAULT 1',
+        restart_backoff_max: 'INTEGER DEFAULT 30',
+        stable_uptime: 'INTEGER DEFAULT 300',
+        desired_state: 'TEXT',
+        status_changed_at: 'TEXT',
+        last_exit_code: 'INTEGER',
+        last_exit_signal: 'TEXT',
+        last_exit_at: 'TEXT',
+      });
+
       // Create other tables as needed
       sqlite.exec(`
         CREATE TABLE IF NOT EXISTS api_keys (
@@ -77,24 +150,36 @@ export async function runMigrations() {
 
       sqlite.exec(`
         CREATE TABLE IF NOT EXISTS logs (
-          id TEXT PRIMARY KEY,
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
           service_id TEXT,
           level TEXT NOT NULL,
           message TEXT NOT NULL,
           timestamp TEXT DEFAULT CURRENT_TIMESTAMP,
           metadata TEXT DEFAULT '{}'
-        )
+        );
+        CREATE INDEX IF NOT EXISTS logs_service_timestamp ON logs (service_id, timestamp);
       `);
 
+      // Nothing wrote to the name/value layout this table used to have, so
+      // it can be replaced without losing data
+      const metricColumns = sqlite.prepare('PRAGMA table_info(metrics)').all() as { name: string }[];
+      if (metricColumns.some(column => column.name === 'metric_name')) {
+        sqlite.exec('DROP TABLE metrics');
+      }
+
       sqlite.exec(`
         CREATE TABLE IF NOT EXISTS metrics (
-          id TEXT PRIMARY KEY,
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
           service_id TEXT,
-          metric_name TEXT NOT NULL,
-          value REAL NOT NULL,
           timestamp TEXT DEFAULT CURRENT_TIMESTAMP,
-          labels TEXT DEFAULT '{}'
-        )
+          cpu_usage REAL,
+          memory_usage REAL,
+          request_count INTEGER DEFAULT 0,
+          error_count INTEGER DEFAULT 0,
+          avg_response_time REAL,
+          period INTEGER
+        );
+        CREATE INDEX IF NOT EXISTS metrics_service_timestamp ON metrics (service_id, timestamp);
       `);
 
       console.log('Database tables created successfully');
@@ -13,21 +13,49 @@ export const settings = sqliteTable('settings', {
 export const services = sqliteTable('services', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
+  type: text('type').default('local'),
   repositoryUrl: text('repository_url'),
   repositoryBranch: text('repository_branch').default('main'),
   repositoryPath: text('repository_path').default('./'),
   entryPoint: text('entry_point').notNull(),
+  command: text('command'),
+  args: text('args').default('[]'),
+  workingDirectory: text('working_directory'),
   environment: text('environment').default('{}'),
+  remoteUrl: text('remote_url'),
+  remoteTransport: text('remote_transport').default('streamable-http'),
+  remoteHeaders: text('remote_headers').default('{}'),
+  remoteBearerToken: text('remote_bearer_token'),
   proxyPath: text('proxy_path').notNull().unique(),
   rateLimit: integer('rate_limit').default(100),
   cacheTTL: integer('cache_ttl').default(300),
   timeout: integer('timeout').default(30000),
   autoRestart: integer('auto_restart', { mode: 'boolean' }).default(true),
+  restartPolicy: text('restart_policy').default('on-failure'),
   maxRestarts: integer('max_restarts').default(5),
+  restartBackoff: integer('restart_backoff').default(1),
+  restartBackoffMax: integer('restart_backoff_max').default(30),
+  stableUptime: integer('stable_uptime').default(300),
   maxMemory: text('max_memory').default('512MB'),
+  memoryPolicy: text('memory_policy').default('restart'),
   healthCheckInterval: integer('health_check_interval').default(30),
+  healthCheckMethod: text('health_check_method').default('ping'),
+  healthCheckThreshold: integer('health_check_threshold').default(3),
+  processMode: text('process_mode').default('shared'),
+  maxSessions: integer('max_sessions').default(10),
+  sessionIdleTimeout: integer('session_idle_timeout').default(600),
+  replicas: integer('replicas').default(1),
+  sessionAffinity: integer('session_affinity', { mode: 'boolean' }).default(true),
+  idleTimeout: integer('idle_timeout').default(0),
+  coldStartTimeout: integer('cold_start_timeout').default(60),
   status: text('status').default('stopped'),
+  // Whether the service should be running, restored when the gateway starts
+  desiredState: text('desired_state'),
+  statusChangedAt: text('status_changed_at'),
   lastError: text('last_error'),
+  lastExitCode: integer('last_exit_code'),
+  lastExitSignal: text('last_exit_signal'),
+  lastExitAt: text('last_exit_at'),
   createdAt: text('created_at').default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').default(sql`CURRENT_TIMESTAMP`),
 });
@@ -41,6 +69,9 @@ export const metrics = sqliteTable('metrics', {
   requestCount: integer('request_count').default(0),
   errorCount: integer('error_count').default(0),
   avgResponseTime: real('avg_response_time'),
+  // Seconds the sample covers: the collection interval, or an hour once
+  // rolled up
+  period: integer('period'),
 });
 
 export const logs = sqliteTable('logs', {
@@ -8,6 +8,10 @@ import { logger } from './logger';
 
 const execAsync = promisify(exec);
 
+// Per-service virtualenv, created inside the service's checkout
+const VENV_DIRECTORY = '.venv';
+const PYTHON = process.env.PYTHON || 'python3';
+
 export const DeployRequestSchema = z.object({
   repositoryUrl: z.string().url(),
   branch: z.string().default('main'),
@@ -26,6 +30,17 @@ export interface MCPManifest {
   license?: string;
   requiredEnv?: string[];
   defaultEnv?: Record<string, string>;
+  // Set for services that are not run as `node <entryPoint>`, such as Python
+  // projects run by their virtualenv's interpreter
+  command?: string;
+  args?: string[];
+}
+
+interface PyprojectInfo {
+  name?: string;
+  description?: string;
+  version?: string;
+  scripts: Record<string, string>;
 }
 
 export class GitHubService {
@@ -62,6 +77,14 @@ export class GitHubService {
         ]);
       }
 
+      if (await this.isPythonProject(targetPath)) {
+        const interpreter = await this.installPythonDependencies(targetPath);
+        return {
+          path: targetPath,
+          manifest: await this.discoverPythonManifest(targetPath, interpreter),
+        };
+      }
+
       const manifest = await this.discoverMCPManifest(targetPath);
       
       await this.installDependencies(targetPath);
@@ -93,10 +116,14 @@ export class GitHubService {
       await repoGit.checkout(branch);
       await repoGit.pull('origin', branch);
       
-      await this.installDependencies(servicePath);
-      
-      if (await this.fileExists(path.join(servicePath, 'tsconfig.json'))) {
-        await this.buildTypeScript(servicePath);
+      if (await this.isPythonProject(servicePath)) {
+        await this.installPythonDependencies(servicePath);
+      } else {
+        await this.installDependencies(servicePath);
+
+        if (await this.fileExists(path.join(servicePath, 'tsconfig.json'))) {
+          await this.buildTypeScript(servicePath);
+        }
       }
       
       logger.info(`Successfully updated repository at ${servicePath}`);
@@ -106,6 +133,13 @@ export class GitHubService {
     }
   }
 
+  private async discoverManifest(repoPath: string): Promise<MCPManifest> {
+    if (await this.isPythonProject(repoPath)) {
+      return this.discoverPythonManifest(repoPath, this.getVenvInterpreter(repoPath));
+    }
+    return this.discoverMCPManifest(repoPath);
+  }
+
   private async discoverMCPManifest(repoPath: string): Promise<MCPManifest> {
     const possibleManifestPaths = [
       'mcp.json',
@@ -211,6 +245,154 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Node projects take precedence, so a repository that only ships Python
+   * tooling alongside its package.json is still deployed as before.
+   */
+  private async isPythonProject(repoPath: string): Promise<boolean> {
+    if (await this.fileExists(path.join(repoPath, 'package.json'))) {
+      return false;
+    }
+    return await this.fileExists(path.join(repoPath, 'pyproject.toml')) ||
+      await this.fileExists(path.join(repoPath, 'requirements.txt'));
+  }
+
+  private getVenvInterpreter(repoPath: string): string {
+    return path.resolve(repoPath, VENV_DIRECTORY, 'bin', 'python');
+  }
+
+  /**
+   * Creates the service's virtualenv if needed and installs the project into
+   * it. Returns the absolute path of the venv's interpreter.
+   */
+  private async installPythonDependencies(repoPath: string): Promise<string> {
+    const interpreter = this.getVenvInterpreter(repoPath);
+
+    if (!(await this.fileExists(interpreter))) {
+      logger.info(`Creating virtualenv for ${repoPath}`);
+      await execAsync(`${PYTHON} -m venv ${VENV_DIRECTORY}`, { cwd: repoPath });
+    }
+
+    logger.info(`Installing Python dependencies for ${repoPath}`);
+    const pipInstall = `"${interpreter}" -m pip install --disable-pip-version-check`;
+
+    if (await this.fileExists(path.join(repoPath, 'requirements.txt'))) {
+      await execAsync(`${pipInstall} -r requirements.txt`, { cwd: repoPath });
+    }
+
+    if (await this.fileExists(path.join(repoPath, 'pyproject.toml'))) {
+      const { stderr } = await execAsync(`${pipInstall} .`, { cwd: repoPath });
+
+      if (stderr && !stderr.includes('WARNING')) {
+        logger.warn(`Dependency installation warnings: ${stderr}`);
+      }
+    }
+
+    logger.info(`Python dependencies installed successfully`);
+    return interpreter;
+  }
+
+  /**
+   * Finds how to run a Python MCP server, in order of preference: an explicit
+   * MCP manifest, a console script declared in pyproject.toml, a package with
+   * a `__main__` module, then a conventional script name.
+   */
+  private async discoverPythonManifest(repoPath: string, interpreter: string): Promise<MCPManifest> {
+    for (const manifestPath of ['mcp.json', 'mcp-manifest.json', '.mcp.json']) {
+      const fullPath = path.join(repoPath, manifestPath);
+      if (await this.fileExists(fullPath)) {
+        const data = JSON.parse(await fs.readFile(fullPath, 'utf-8'));
+
+        if (this.isValidMCPManifest(data)) {
+          // Entry points that are not files are run as modules
+          const args = data.entryPoint.endsWith('.py') ? [data.entryPoint] : ['-m', data.entryPoint];
+          return { ...data, command: interpreter, args: data.args ?? args };
+        }
+      }
+    }
+
+    const pyproject = await this.readPyproject(repoPath);
+    const name = pyproject.name || path.basename(repoPath);
+    const base = {
+      name,
+      description: pyproject.description,
+      version: pyproject.version,
+      command: interpreter,
+    };
+
+    const scriptNames = Object.keys(pyproject.scripts);
+    const script = scriptNames.find(script => script === name) ||
+      scriptNames.find(script => script.includes('mcp')) ||
+      scriptNames[0];
+
+    if (script) {
+      const scriptPath = path.resolve(repoPath, VENV_DIRECTORY, 'bin', script);
+      if (await this.fileExists(scriptPath)) {
+        return { ...base, entryPoint: script, args: [scriptPath] };
+      }
+    }
+
+    for (const parent of ['src', '.']) {
+      const packageDir = path.join(repoPath, parent);
+      if (!(await this.directoryExists(packageDir))) continue;
+
+      const entries = await fs.readdir(packageDir, { withFileTypes: true });
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+
+        if (await this.fileExists(path.join(packageDir, entry.name, '__main__.py'))) {
+          return { ...base, entryPoint: entry.name, args: ['-m', entry.name] };
+        }
+      }
+    }
+
+    for (const entryPoint of ['server.py', 'main.py', 'app.py', 'src/server.py', 'src/main.py']) {
+      if (await this.fileExists(path.join(repoPath, entryPoint))) {
+        return { ...base, entryPoint, args: [entryPoint] };
+      }
+    }
+
+    throw new Error('Could not find MCP entry point');
+  }
+
+  /**
+   * Reads the project metadata and console scripts from pyproject.toml. Only
+   * the simple `key = "value"` tables these live in are understood.
+   */
+  private async readPyproject(repoPath: string): Promise<PyprojectInfo> {
+    const info: PyprojectInfo = { scripts: {} };
+    const pyprojectPath = path.join(repoPath, 'pyproject.toml');
+
+    if (!(await this.fileExists(pyprojectPath))) {
+      return info;
+    }
+
+    const content = await fs.readFile(pyprojectPath, 'utf-8');
+    let section = '';
+
+    for (const line of content.split('\n')) {
+      const header = line.match(/^\s*\[([^\]]+)\]\s*$/);
+      if (header) {
+        section = header[1].trim();
+        continue;
+      }
+
+      const pair = line.match(/^\s*"?([\w.\-]+)"?\s*=\s*["']([^"']*)["']/);
+      if (!pair) continue;
+      const [, key, value] = pair;
+
+      if (section === 'project' || section === 'tool.poetry') {
+        if (key === 'name' || key === 'description' || key === 'version') {
+          info[key] ??= value;
+        }
+      } else if (section === 'project.scripts' || section === 'tool.poetry.scripts') {
+        info.scripts[key] = value;
+      }
+    }
+
+    return info;
+  }
+
   private async buildTypeScript(repoPath: string): Promise<void> {
     logger.info(`Building TypeScript project at ${repoPath}`);
     
@@ -270,7 +452,7 @@ export class GitHubService {
         if (entry.isDirectory()) {
           const servicePath = path.join(this.cloneDirectory, entry.name);
           try {
-            const manifest = await this.discoverMCPManifest(servicePath);
+            const manifest = await this.discoverManifest(servicePath);
             services.push({
               name: entry.name,
               path: servicePath,
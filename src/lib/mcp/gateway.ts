@@ -0,0 +1,285 @@
+import { MCPConfig, MCPProcess, ProcessManager, RequestContext } from '../process-manager';
+import { logger } from '../logger';
+import {
+  ErrorCode,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  createErrorResponse,
+} from './jsonrpc';
+import { LATEST_PROTOCOL_VERSION, negotiateProtocolVersion } from './protocol';
+
+export const GATEWAY_SEPARATOR = '__';
+
+// Upper bound on pages fetched from one service while aggregating a list
+const MAX_LIST_PAGES = 20;
+
+// Longest prefix taken from a service name
+const MAX_PREFIX_LENGTH = 24;
+
+export const GATEWAY_SERVER_INFO = {
+  name: 'mcp-reverse-proxy-gateway',
+  version: '1.0.0',
+};
+
+// Each list method is named after the capability that enables it and the
+// result field that holds its items
+type ListKind = 'tools' | 'prompts' | 'resources';
+
+export interface GatewayContext extends Omit<RequestContext, 'sessionId'> {
+  // Service ids the caller may reach; undefined means every service
+  services?: string[];
+}
+
+/**
+ * Turns a service name into a tool-name prefix: lowercase letters, digits and
+ * single dashes, short enough to leave most of the 64 characters MCP clients
+ * allow for the tool's own name.
+ */
+export function slugifyServiceName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_PREFIX_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'service';
+}
+
+/**
+ * Gives every service a distinct prefix. Services are taken in id order, so
+ * the oldest keeps the plain slug and later ones with the same slug get
+ * `-2`, `-3` and so on.
+ */
+export function assignServicePrefixes(services: Pick<MCPConfig, 'id' | 'name'>[]): Map<string, string> {
+  const prefixes = new Map<string, string>();
+  const taken = new Set<string>();
+
+  for (const { id, name } of [...services].sort((a, b) => a.id.localeCompare(b.id))) {
+    const slug = slugifyServiceName(name);
+    let prefix = slug;
+    for (let n = 2; taken.has(prefix); n++) {
+      prefix = `${slug}-${n}`;
+    }
+    taken.add(prefix);
+    prefixes.set(id, prefix);
+  }
+
+  return prefixes;
+}
+
+export function namespaceName(prefix: string, name: string): string {
+  return `${prefix}${GATEWAY_SEPARATOR}${name}`;
+}
+
+export function parseNamespacedName(name: unknown): { prefix: string; name: string } | undefined {
+  if (typeof name !== 'string') {
+    return undefined;
+  }
+
+  const index = name.indexOf(GATEWAY_SEPARATOR);
+  if (index <= 0) {
+    return undefined;
+  }
+
+  return {
+    prefix: name.slice(0, index),
+    name: name.slice(index + GATEWAY_SEPARATOR.length),
+  };
+}
+
+/**
+ * Reads gateway membership from an API key's `permissions` JSON, shaped as
+ * `{ "gateway": { "services": ["github", "filesystem"] } }`. Keys without a
+ * list reach every service.
+ */
+export function getGatewayMembership(permissions?: string | null): string[] | undefined {
+  if (!permissions) {
+    return undefined;
+  }
+
+  try {
+    const services = JSON.parse(permissions)?.gateway?.services;
+    return Array.isArray(services) ? services.filter((id): id is string => typeof id === 'string') : undefined;
+  } catch {
+    logger.warn('Ignoring malformed API key permissions');
+    return undefined;
+  }
+}
+
+/**
+ * Presents every running service as a single MCP server. List methods fan out
+ * to all member services and prefix each tool and prompt with a slug of its
+ * service's name (`github__create_issue`); calls are routed back by that
+ * prefix. Resources
+ * keep their URIs, so reads are routed to whichever service listed the URI.
+ */
+export class MCPGateway {
+  private resourceOwners: Map<string, string> = new Map();
+
+  constructor(private processManager: ProcessManager) {}
+
+  async handleRequest(request: JSONRPCRequest, context: GatewayContext = {}): Promise<JSONRPCResponse> {
+    switch (request.method) {
+      case 'initialize':
+        return this.answerInitialize(request);
+
+      case 'ping':
+        return { jsonrpc: '2.0', id: request.id, result: {} };
+
+      case 'tools/list':
+        return this.aggregateList(request, 'tools', context);
+
+      case 'prompts/list':
+        return this.aggregateList(request, 'prompts', context);
+
+      case 'resources/list':
+        return this.aggregateList(request, 'resources', context);
+
+      case 'tools/call':
+      case 'prompts/get':
+        return this.routeByName(request, context);
+
+      case 'resources/read':
+        return this.routeByUri(request, context);
+
+      default:
+        return createErrorResponse(request.id, ErrorCode.MethodNotFound, `Method not found: ${request.method}`);
+    }
+  }
+
+  private answerInitialize(request: JSONRPCRequest): JSONRPCResponse {
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        protocolVersion: negotiateProtocolVersion(request.params?.protocolVersion, LATEST_PROTOCOL_VERSION),
+        capabilities: {
+          tools: {},
+          prompts: {},
+          resources: {},
+        },
+        serverInfo: GATEWAY_SERVER_INFO,
+        instructions: `Tools and prompts are named <service>${GATEWAY_SEPARATOR}<name>.`,
+      },
+    };
+  }
+
+  private getMembers(context: GatewayContext): MCPProcess[] {
+    return this.processManager.getAllProcesses().filter((mcpProcess) => {
+      const { id } = mcpProcess.config;
+      return mcpProcess.canServe() &&
+        (!context.services || context.services.includes(id));
+    });
+  }
+
+  private getMember(serviceId: string, context: GatewayContext): MCPProcess | undefined {
+    return this.getMembers(context).find(mcpProcess => mcpProcess.config.id === serviceId);
+  }
+
+  // Assigned over every service rather than the caller's members, so a
+  // service keeps its prefix whichever key lists it
+  private getPrefixes(): Map<string, string> {
+    return assignServicePrefixes(this.processManager.getAllProcesses().map(mcpProcess => mcpProcess.config));
+  }
+
+  /**
+   * Collects every page of a list from one service. Failures are logged and
+   * yield an empty list so one broken service does not hide the others.
+   */
+  private async listService(
+    mcpProcess: MCPProcess,
+    request: JSONRPCRequest,
+    kind: ListKind,
+    context: GatewayContext,
+  ): Promise<any[]> {
+    const items: any[] = [];
+    let cursor: string | undefined;
+
+    try {
+      // A service that scaled to zero has no capabilities until it starts
+      await mcpProcess.wake();
+      if (!mcpProcess.getServerInfo()?.capabilities?.[kind]) {
+        return [];
+      }
+
+      for (let page = 0; page < MAX_LIST_PAGES; page++) {
+        const response = await mcpProcess.sendRequest(
+          { ...request, params: cursor ? { ...request.params, cursor } : { ...request.params } },
+          { signal: context.signal, protocolVersion: context.protocolVersion },
+        );
+
+        if (response.error) {
+          logger.warn(`Gateway ${request.method} failed for ${mcpProcess.config.id}: ${response.error.message}`);
+          break;
+        }
+
+        items.push(...(response.result?.[kind] ?? []));
+        cursor = response.result?.nextCursor;
+        if (!cursor) break;
+      }
+    } catch (error) {
+      logger.warn(`Gateway ${request.method} failed for ${mcpProcess.config.id}:`, error);
+    }
+
+    return items;
+  }
+
+  private async aggregateList(
+    request: JSONRPCRequest,
+    kind: ListKind,
+    context: GatewayContext,
+  ): Promise<JSONRPCResponse> {
+    const members = this.getMembers(context);
+    const prefixes = this.getPrefixes();
+    const lists = await Promise.all(members.map(member => this.listService(member, request, kind, context)));
+
+    const items = lists.flatMap((list, index) => {
+      const serviceId = members[index].config.id;
+
+      if (kind === 'resources') {
+        for (const resource of list) {
+          this.resourceOwners.set(resource.uri, serviceId);
+        }
+        return list;
+      }
+
+      const prefix = prefixes.get(serviceId)!;
+      return list.map(item => ({ ...item, name: namespaceName(prefix, item.name) }));
+    });
+
+    return { jsonrpc: '2.0', id: request.id, result: { [kind]: items } };
+  }
+
+  private async routeByName(request: JSONRPCRequest, context: GatewayContext): Promise<JSONRPCResponse> {
+    const target = parseNamespacedName(request.params?.name);
+    const serviceId = target && [...this.getPrefixes()].find(([, prefix]) => prefix === target.prefix)?.[0];
+    const mcpProcess = serviceId && this.getMember(serviceId, context);
+
+    if (!target || !mcpProcess) {
+      return createErrorResponse(request.id, ErrorCode.InvalidParams, `Unknown name: ${request.params?.name}`);
+    }
+
+    return mcpProcess.sendRequest(
+      { ...request, params: { ...request.params, name: target.name } },
+      { signal: context.signal, protocolVersion: context.protocolVersion },
+    );
+  }
+
+  private async routeByUri(request: JSONRPCRequest, context: GatewayContext): Promise<JSONRPCResponse> {
+    const uri = request.params?.uri;
+
+    // The owner may not be known yet if the client never listed resources
+    // through this gateway
+    if (!this.resourceOwners.has(uri)) {
+      await this.aggregateList({ jsonrpc: '2.0', id: request.id, method: 'resources/list' }, 'resources', context);
+    }
+
+    const serviceId = this.resourceOwners.get(uri);
+    const mcpProcess = serviceId && this.getMember(serviceId, context);
+
+    if (!mcpProcess) {
+      return createErrorResponse(request.id, ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    return mcpProcess.sendRequest(request, { signal: context.signal, protocolVersion: context.protocolVersion });
+  }
+}
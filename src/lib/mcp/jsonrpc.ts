@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+export type JSONRPCId = string | number;
+
+export interface JSONRPCRequest {
+  jsonrpc: '2.0';
+  id: JSONRPCId;
+  method: string;
+  params?: any;
+}
+
+export interface JSONRPCNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+}
+
+export interface JSONRPCError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JSONRPCResponse {
+  jsonrpc: '2.0';
+  id: JSONRPCId | null;
+  result?: any;
+  error?: JSONRPCError;
+}
+
+export type JSONRPCMessage = JSONRPCRequest | JSONRPCNotification | JSONRPCResponse;
+
+export const ErrorCode = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ConnectionClosed: -32000,
+  RequestTimeout: -32001,
+} as const;
+
+export const JSONRPCMessageSchema = z.union([
+  z.object({
+    jsonrpc: z.literal('2.0'),
+    method: z.string(),
+    params: z.any().optional(),
+    id: z.union([z.string(), z.number()]).optional(),
+  }),
+  z.object({
+    jsonrpc: z.literal('2.0'),
+    id: z.union([z.string(), z.number(), z.null()]),
+    result: z.any().optional(),
+    error: z.object({
+      code: z.number(),
+      message: z.string(),
+      data: z.any().optional(),
+    }).optional(),
+  }),
+]);
+
+export function isRequest(message: JSONRPCMessage): message is JSONRPCRequest {
+  return 'method' in message && 'id' in message && message.id !== undefined && message.id !== null;
+}
+
+export function isNotification(message: JSONRPCMessage): message is JSONRPCNotification {
+  return 'method' in message && !('id' in message && message.id !== undefined && message.id !== null);
+}
+
+export function isResponse(message: JSONRPCMessage): message is JSONRPCResponse {
+  return !('method' in message) && ('result' in message || 'error' in message);
+}
+
+/**
+ * Parses a single line of JSON-RPC traffic. Throws if the text is not JSON or
+ * does not look like a JSON-RPC 2.0 message.
+ */
+export function parseMessage(text: string): JSONRPCMessage {
+  return JSONRPCMessageSchema.parse(JSON.parse(text)) as JSONRPCMessage;
+}
+
+export function createErrorResponse(
+  id: JSONRPCId | null,
+  code: number,
+  message: string,
+  data?: unknown,
+): JSONRPCResponse {
+  return {
+    jsonrpc: '2.0',
+    error: data === undefined ? { code, message } : { code, message, data },
+    id,
+  };
+}
@@ -0,0 +1,56 @@
+export const LATEST_PROTOCOL_VERSION = '2025-06-18';
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  LATEST_PROTOCOL_VERSION,
+  '2025-03-26',
+  '2024-11-05',
+];
+
+// Revision assumed for clients that send no MCP-Protocol-Version header
+export const DEFAULT_PROTOCOL_VERSION = '2025-03-26';
+
+export const PROXY_CLIENT_INFO = {
+  name: 'mcp-reverse-proxy',
+  version: '1.0.0',
+};
+
+// The proxy relays server-to-client requests, so it advertises whatever a
+// downstream client might be able to answer
+export const PROXY_CLIENT_CAPABILITIES = {
+  roots: { listChanged: true },
+  sampling: {},
+  elicitation: {},
+};
+
+// Severities of `notifications/message`, from RFC 5424
+export const LOGGING_LEVELS = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+] as const;
+
+export type LoggingLevel = typeof LOGGING_LEVELS[number];
+
+export interface ServerInitializeResult {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  serverInfo: { name: string; version: string; [key: string]: unknown };
+  instructions?: string;
+}
+
+/**
+ * Picks the version to answer a client's `initialize` with: the requested
+ * revision when the proxy knows it, otherwise the one the upstream server
+ * negotiated.
+ */
+export function negotiateProtocolVersion(requested: unknown, upstream: string): string {
+  if (typeof requested === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(requested)) {
+    return requested;
+  }
+  return upstream;
+}
@@ -0,0 +1,312 @@
+import { EventEmitter } from 'events';
+import { logger } from '../logger';
+import {
+  ErrorCode,
+  JSONRPCId,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  createErrorResponse,
+  isNotification,
+  isRequest,
+  isResponse,
+} from './jsonrpc';
+import type { MCPConfig } from '../process-manager';
+
+// As parsed by MCPConfigSchema, so it type-checks the same under the strict
+// and the backend build settings
+export type RemoteUpstreamConfig = NonNullable<MCPConfig['remote']>;
+
+interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Reads a `text/event-stream` body until it ends, calling `onEvent` for each
+ * dispatched event.
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event = 'message';
+  let data: string[] = [];
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) {
+          onEvent({ event, data: data.join('\n') });
+        }
+        event = 'message';
+        data = [];
+        continue;
+      }
+
+      if (line.startsWith(':')) continue;
+
+      const index = line.indexOf(':');
+      const field = index === -1 ? line : line.slice(0, index);
+      const fieldValue = index === -1 ? '' : line.slice(index + 1).replace(/^ /, '');
+
+      if (field === 'event') {
+        event = fieldValue;
+      } else if (field === 'data') {
+        data.push(fieldValue);
+      }
+    }
+  }
+}
+
+/**
+ * Client side of a hosted MCP server, reached over Streamable HTTP or the
+ * legacy HTTP+SSE transport. It stands in for a child process's stdio: `send`
+ * writes a message upstream, and everything the server sends back is emitted
+ * as `message`. `close` is emitted with the reason if the connection is lost.
+ */
+export class RemoteUpstream extends EventEmitter {
+  private controller = new AbortController();
+  private closed = false;
+  private sessionId?: string;
+  private protocolVersion?: string;
+  private initializeId?: JSONRPCId;
+  // POST target announced by the `endpoint` event of the SSE transport
+  private messagesUrl?: string;
+
+  constructor(
+    private serviceId: string,
+    private config: RemoteUpstreamConfig,
+  ) {
+    super();
+  }
+
+  /**
+   * Resolves once messages can be sent. Streamable HTTP needs no connection up
+   * front; the SSE transport waits for the server to announce its endpoint.
+   */
+  async connect(timeoutMs: number): Promise<void> {
+    if (this.config.transport !== 'sse') {
+      return;
+    }
+
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        this.openSSEStream(),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error(`Timed out connecting to ${this.config.url}`)), timeoutMs);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  send(message: JSONRPCMessage): void {
+    this.post(message).catch((error) => {
+      if (this.closed) return;
+
+      logger.warn(`Remote MCP ${this.serviceId} failed to deliver message:`, error);
+      if (isRequest(message)) {
+        this.emit('message', createErrorResponse(
+          message.id,
+          ErrorCode.InternalError,
+          `Upstream error: ${error instanceof Error ? error.message : String(error)}`,
+        ));
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.controller.abort();
+
+    if (this.config.transport === 'streamable-http' && this.sessionId) {
+      await fetch(this.config.url, {
+        method: 'DELETE',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(5000),
+      }).catch(() => {});
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    this.controller.abort();
+    this.emit('close', error);
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { ...this.config.headers };
+
+    if (this.config.bearerToken) {
+      headers['Authorization'] = `Bearer ${this.config.bearerToken}`;
+    }
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+
+    return headers;
+  }
+
+  private async post(message: JSONRPCMessage): Promise<void> {
+    const url = this.config.transport === 'sse' ? this.messagesUrl : this.config.url;
+    if (!url) {
+      throw new Error('Upstream endpoint is not known yet');
+    }
+
+    if (isRequest(message) && message.method === 'initialize') {
+      this.initializeId = message.id;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        ...this.buildHeaders(),
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+      signal: this.controller.signal,
+    });
+
+    if (this.config.transport === 'streamable-http') {
+      this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId;
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      await response.body?.cancel();
+      this.fail(new Error('Upstream session expired'));
+      return;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status} from ${url}`);
+    }
+
+    // SSE transport replies arrive on the GET stream, not on the POST
+    if (this.config.transport === 'sse' || response.status === 202 || !response.body) {
+      await response.body?.cancel();
+    } else if (response.headers.get('content-type')?.includes('text/event-stream')) {
+      await readEventStream(response.body, event => this.receive(event.data));
+    } else {
+      const text = await response.text();
+      if (text.trim()) {
+        this.receive(text);
+      }
+    }
+
+    if (
+      this.config.transport === 'streamable-http' &&
+      isNotification(message) &&
+      message.method === 'notifications/initialized'
+    ) {
+      this.openStandaloneStream();
+    }
+  }
+
+  private receive(data: string): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      logger.debug(`Non-JSON data from remote MCP ${this.serviceId}: ${data}`);
+      return;
+    }
+
+    for (const item of Array.isArray(payload) ? payload : [payload]) {
+      const validated = JSONRPCMessageSchema.safeParse(item);
+      if (!validated.success) {
+        logger.debug(`Invalid JSON-RPC message from remote MCP ${this.serviceId}`);
+        continue;
+      }
+
+      const message = validated.data as JSONRPCMessage;
+      if (isResponse(message) && message.id === this.initializeId && message.result?.protocolVersion) {
+        this.protocolVersion = message.result.protocolVersion;
+      }
+
+      this.emit('message', message);
+    }
+  }
+
+  /**
+   * Listens for server-initiated messages on Streamable HTTP. Servers are not
+   * required to offer this stream, so a refusal is not an error.
+   */
+  private async openStandaloneStream(): Promise<void> {
+    try {
+      const response = await fetch(this.config.url, {
+        method: 'GET',
+        headers: { ...this.buildHeaders(), 'Accept': 'text/event-stream' },
+        signal: this.controller.signal,
+      });
+
+      if (!response.ok || !response.body) {
+        await response.body?.cancel();
+        logger.debug(`Remote MCP ${this.serviceId} offers no standalone stream (HTTP ${response.status})`);
+        return;
+      }
+
+      await readEventStream(response.body, event => this.receive(event.data));
+    } catch (error) {
+      if (!this.closed) {
+        logger.debug(`Standalone stream of remote MCP ${this.serviceId} ended:`, error);
+      }
+    }
+  }
+
+  private async openSSEStream(): Promise<void> {
+    const response = await fetch(this.config.url, {
+      method: 'GET',
+      headers: { ...this.buildHeaders(), 'Accept': 'text/event-stream' },
+      signal: this.controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status} from ${this.config.url}`);
+    }
+
+    const body = response.body;
+    await new Promise<void>((resolve, reject) => {
+      const end = (error: Error) => {
+        reject(error);
+        this.fail(error);
+      };
+
+      readEventStream(body, (event) => {
+        if (event.event === 'endpoint') {
+          this.messagesUrl = new URL(event.data, this.config.url).toString();
+          resolve();
+        } else if (event.event === 'message') {
+          this.receive(event.data);
+        }
+      })
+        .then(() => end(new Error('Upstream SSE stream ended')))
+        .catch(error => end(error instanceof Error ? error : new Error(String(error))));
+    });
+  }
+}
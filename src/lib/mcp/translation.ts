@@ -0,0 +1,206 @@
+import { JSONRPCNotification, JSONRPCRequest } from './jsonrpc';
+
+/**
+ * Translation between MCP protocol revisions. The proxy speaks to each server
+ * in the revision negotiated at startup and to each client in the revision it
+ * asked for, so results and server-initiated messages are downgraded here for
+ * clients on an older revision. Newer clients need no upgrade: older servers
+ * simply never produce the newer fields.
+ *
+ * JSON-RPC batching (2025-03-26 only) needs no translation because the proxy
+ * always splits batches into single messages before they reach a server.
+ */
+
+const AUDIO_CONTENT = '2025-03-26';
+const TOOL_ANNOTATIONS = '2025-03-26';
+const PROGRESS_MESSAGE = '2025-03-26';
+const COMPLETIONS_CAPABILITY = '2025-03-26';
+const STRUCTURED_OUTPUT = '2025-06-18';
+const RESOURCE_LINKS = '2025-06-18';
+const TITLES = '2025-06-18';
+const ELICITATION = '2025-06-18';
+
+// Revisions are dates, so they order lexicographically
+function isBefore(version: string, feature: string): boolean {
+  return version < feature;
+}
+
+function downgradeContent(block: any, clientVersion: string): any {
+  if (!block || typeof block !== 'object') {
+    return block;
+  }
+
+  if (block.type === 'audio' && isBefore(clientVersion, AUDIO_CONTENT)) {
+    return { type: 'text', text: `[audio content: ${block.mimeType}]` };
+  }
+
+  if (block.type === 'resource_link' && isBefore(clientVersion, RESOURCE_LINKS)) {
+    return { type: 'text', text: `[resource: ${block.name ?? block.uri}] ${block.uri}` };
+  }
+
+  return block;
+}
+
+function downgradeContentList(content: unknown, clientVersion: string): unknown {
+  return Array.isArray(content)
+    ? content.map(block => downgradeContent(block, clientVersion))
+    : downgradeContent(content, clientVersion);
+}
+
+function stripTitle<T extends Record<string, any>>(item: T, clientVersion: string): T {
+  if (!isBefore(clientVersion, TITLES) || !('title' in item)) {
+    return item;
+  }
+  const { title, ...rest } = item;
+  return rest as T;
+}
+
+function downgradeTool(tool: any, clientVersion: string): any {
+  let downgraded = stripTitle(tool, clientVersion);
+
+  if (isBefore(clientVersion, STRUCTURED_OUTPUT)) {
+    const { outputSchema, ...rest } = downgraded;
+    downgraded = rest;
+  }
+
+  if (isBefore(clientVersion, TOOL_ANNOTATIONS)) {
+    const { annotations, ...rest } = downgraded;
+    downgraded = rest;
+  }
+
+  return downgraded;
+}
+
+function downgradeToolResult(result: any, clientVersion: string): any {
+  let content = downgradeContentList(result.content ?? [], clientVersion) as any[];
+
+  if (!isBefore(clientVersion, STRUCTURED_OUTPUT)) {
+    return { ...result, content };
+  }
+
+  const { structuredContent, ...rest } = result;
+  if (structuredContent !== undefined && content.length === 0) {
+    content = [{ type: 'text', text: JSON.stringify(structuredContent) }];
+  }
+
+  return { ...rest, content };
+}
+
+/**
+ * Rewrites a server result for a client on `clientVersion`, given the method
+ * of the request it answers.
+ */
+export function translateResult(method: string, result: any, clientVersion: string): any {
+  if (!result || typeof result !== 'object') {
+    return result;
+  }
+
+  switch (method) {
+    case 'initialize': {
+      if (!isBefore(clientVersion, COMPLETIONS_CAPABILITY) || !result.capabilities?.completions) {
+        return result;
+      }
+      const { completions, ...capabilities } = result.capabilities;
+      return { ...result, capabilities };
+    }
+
+    case 'tools/list':
+      return {
+        ...result,
+        tools: (result.tools ?? []).map((tool: any) => downgradeTool(tool, clientVersion)),
+      };
+
+    case 'tools/call':
+      return downgradeToolResult(result, clientVersion);
+
+    case 'prompts/list':
+      return {
+        ...result,
+        prompts: (result.prompts ?? []).map((prompt: any) => stripTitle(prompt, clientVersion)),
+      };
+
+    case 'prompts/get':
+      return {
+        ...result,
+        messages: (result.messages ?? []).map((message: any) => ({
+          ...message,
+          content: downgradeContentList(message.content, clientVersion),
+        })),
+      };
+
+    case 'resources/list':
+      return {
+        ...result,
+        resources: (result.resources ?? []).map((resource: any) => stripTitle(resource, clientVersion)),
+      };
+
+    case 'resources/templates/list':
+      return {
+        ...result,
+        resourceTemplates: (result.resourceTemplates ?? []).map((template: any) => stripTitle(template, clientVersion)),
+      };
+
+    default:
+      return result;
+  }
+}
+
+export function translateNotification(
+  notification: JSONRPCNotification,
+  clientVersion: string,
+): JSONRPCNotification {
+  if (
+    notification.method === 'notifications/progress' &&
+    isBefore(clientVersion, PROGRESS_MESSAGE) &&
+    notification.params?.message !== undefined
+  ) {
+    const { message, ...params } = notification.params;
+    return { ...notification, params };
+  }
+
+  return notification;
+}
+
+export function translateServerRequest(request: JSONRPCRequest, clientVersion: string): JSONRPCRequest {
+  if (request.method !== 'sampling/createMessage' || !Array.isArray(request.params?.messages)) {
+    return request;
+  }
+
+  return {
+    ...request,
+    params: {
+      ...request.params,
+      messages: request.params.messages.map((message: any) => ({
+        ...message,
+        content: downgradeContentList(message.content, clientVersion),
+      })),
+    },
+  };
+}
+
+/**
+ * Whether a client can be sent a server-initiated request at all, based on the
+ * revision and the capabilities it declared in `initialize`. Clients that
+ * never initialized through the proxy are given the benefit of the doubt.
+ */
+export function clientSupportsServerRequest(
+  method: string,
+  clientVersion: string,
+  clientCapabilities?: Record<string, any>,
+): boolean {
+  const capability = {
+    'sampling/createMessage': 'sampling',
+    'roots/list': 'roots',
+    'elicitation/create': 'elicitation',
+  }[method];
+
+  if (method === 'elicitation/create' && isBefore(clientVersion, ELICITATION)) {
+    return false;
+  }
+
+  if (!capability || !clientCapabilities) {
+    return true;
+  }
+
+  return capability in clientCapabilities;
+}
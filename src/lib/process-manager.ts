@@ -1,20 +1,72 @@
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
+import { existsSync } from 'fs';
+import path from 'path';
 import { z } from 'zod';
+import { eq } from 'drizzle-orm';
 import { logger } from './logger';
-import jsonrpcLite from 'jsonrpc-lite';
-const { JSONRPCRequest, JSONRPCResponse, parseJSONRPCMessage } = jsonrpcLite;
+import { db } from './db/index';
+import { services } from './db/schema';
+import {
+  JSONRPCId,
+  JSONRPCMessage,
+  JSONRPCNotification,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  ErrorCode,
+  createErrorResponse,
+  isNotification,
+  isRequest,
+  isResponse,
+  parseMessage,
+} from './mcp/jsonrpc';
+import {
+  LATEST_PROTOCOL_VERSION,
+  LoggingLevel,
+  PROXY_CLIENT_CAPABILITIES,
+  PROXY_CLIENT_INFO,
+  ServerInitializeResult,
+  negotiateProtocolVersion,
+} from './mcp/protocol';
+import {
+  clientSupportsServerRequest,
+  translateNotification,
+  translateResult,
+  translateServerRequest,
+} from './mcp/translation';
+import { RemoteUpstream } from './mcp/remote-upstream';
+import { ResourceUsage, formatBytes, parseMemoryLimit, sampleProcessTrees } from './resource-sampler';
+import { LogLevel, ServiceLogEntry, logLevelFromName, parseLogLevel, recordServiceLog } from './service-logs';
+import { recordRequest, recordRestart } from './telemetry';
+
+const RESOURCE_SAMPLE_INTERVAL = 10000;
 
 export const MCPConfigSchema = z.object({
   id: z.string(),
   name: z.string(),
+  // 'remote' services proxy a hosted MCP server instead of spawning one
+  type: z.enum(['local', 'remote']).default('local'),
   repository: z.object({
     url: z.string().url().optional(),
     branch: z.string().default('main'),
     path: z.string().default('./'),
     entryPoint: z.string(),
   }),
+  runtime: z.object({
+    // Executable to spawn (python, uvx, npx, bun, deno or a binary path).
+    // Without one the service runs as `node <entryPoint> ...args`
+    command: z.string().optional(),
+    args: z.array(z.string()).default([]),
+    // Relative paths resolve against the service's repository directory
+    workingDirectory: z.string().optional(),
+  }).default({}),
   environment: z.record(z.string()).default({}),
+  remote: z.object({
+    url: z.string().url(),
+    transport: z.enum(['streamable-http', 'sse']).default('streamable-http'),
+    headers: z.record(z.string()).default({}),
+    bearerToken: z.string().optional(),
+  }).optional(),
   proxy: z.object({
     path: z.string(),
     rateLimit: z.number().default(100),
@@ -23,31 +75,162 @@ export const MCPConfigSchema = z.object({
   }),
   process: z.object({
     autoRestart: z.boolean().default(true),
+    // 'on-failure' leaves a server that exits cleanly stopped; autoRestart
+    // false is the same as 'never'
+    restartPolicy: z.enum(['always', 'on-failure', 'never']).default('on-failure'),
     maxRestarts: z.number().default(5),
+    // Delay before the first restart in seconds, doubled on each further
+    // attempt up to restartBackoffMax
+    restartBackoff: z.number().min(0).default(1),
+    restartBackoffMax: z.number().min(0).default(30),
+    // Seconds a process must stay up for its crashes to be forgiven
+    stableUptime: z.number().min(0).default(300),
     maxMemory: z.string().default('512MB'),
+    // What to do when the process tree's RSS exceeds maxMemory
+    memoryPolicy: z.enum(['restart', 'kill']).default('restart'),
     healthCheckInterval: z.number().default(30),
+    // Probe sent every healthCheckInterval seconds, and how many failures in
+    // a row mark the service unhealthy
+    healthCheckMethod: z.enum(['ping', 'tools/list']).default('ping'),
+    healthCheckThreshold: z.number().int().min(1).default(3),
+    // 'isolated' gives every client session its own process, for servers that
+    // keep per-user state. Sessionless requests still use the shared process
+    mode: z.enum(['shared', 'isolated']).default('shared'),
+    maxSessions: z.number().default(10),
+    // Seconds a session's process may sit idle before it is reaped
+    sessionIdleTimeout: z.number().default(600),
+    // Copies of a shared service to spread requests over. With affinity a
+    // session stays on one replica; without it every request is balanced
+    replicas: z.number().int().min(1).default(1),
+    sessionAffinity: z.boolean().default(true),
+    // Seconds without requests before the service scales to zero (0 keeps it
+    // running), and how long the request that wakes it may wait
+    idleTimeout: z.number().default(0),
+    coldStartTimeout: z.number().default(60),
   }),
 });
 
 export type MCPConfig = z.infer<typeof MCPConfigSchema>;
 
 interface MCPProcessState {
-  status: 'starting' | 'running' | 'stopped' | 'crashed' | 'restarting';
+  // 'idle' services have scaled to zero and start on the next request;
+  // 'unhealthy' ones are running but failing their health probes; 'failed'
+  // ones crashed more than maxRestarts times in a row and were given up on
+  status: 'starting' | 'running' | 'stopped' | 'crashed' | 'restarting' | 'idle' | 'unhealthy' | 'failed';
   pid?: number;
   startTime?: Date;
   restartCount: number;
   lastError?: string;
+  lastExit?: {
+    code: number | null;
+    signal: NodeJS.Signals | null;
+    timestamp: Date;
+  };
   memoryUsage?: number;
   cpuUsage?: number;
 }
 
+export interface HealthCheckResult {
+  timestamp: Date;
+  method: string;
+  healthy: boolean;
+  // Round trip of the probe in milliseconds
+  latency?: number;
+  error?: string;
+}
+
+export interface RequestContext {
+  // The client connection the request came from
+  sessionId?: string;
+  // Aborting cancels the request upstream
+  signal?: AbortSignal;
+  // Protocol revision of a client that has no session (from the
+  // MCP-Protocol-Version header); sessions use the version they initialized with
+  protocolVersion?: string;
+}
+
+// Kept on the replica the session is attached to, so updates can reach it
+const SUBSCRIPTION_METHODS = ['resources/subscribe', 'resources/unsubscribe'];
+
+interface PendingRequest {
+  sessionId?: string;
+  // Replica the client's session is attached to, when another one serves the
+  // request. Unset for the proxy's own requests: the handshake, health checks
+  // and log levels
+  origin?: MCPProcess;
+  protocolVersion?: string;
+  originalId: JSONRPCId;
+  method: string;
+  progressToken?: string | number;
+  timeout: NodeJS.Timeout;
+  resolve: (response: JSONRPCResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface AttachedSession {
+  deliver: (message: JSONRPCMessage) => void;
+  lastActivity: number;
+  protocolVersion?: string;
+  clientInfo?: { name: string; version: string };
+  clientCapabilities?: Record<string, any>;
+}
+
+/**
+ * Signals every process in the group led by `pid`. Returns false when there
+ * is no such group left.
+ */
+function signalProcessGroup(pid: number | undefined, signal: NodeJS.Signals): boolean {
+  if (!pid) {
+    return false;
+  }
+
+  try {
+    process.kill(-pid, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export class MCPProcess extends EventEmitter {
   private process?: ChildProcess;
+  private remote?: RemoteUpstream;
   private state: MCPProcessState;
   private healthCheckInterval?: NodeJS.Timeout;
-  private requestCallbacks: Map<string | number, (response: JSONRPCResponse) => void> = new Map();
+  private lastHealthCheck?: HealthCheckResult;
+  private consecutiveHealthFailures = 0;
+  private idleCheckInterval?: NodeJS.Timeout;
+  // Cold start triggered by a request while idle, shared by every request
+  // that arrives before it completes
+  private waking?: Promise<void>;
+  // Start in progress, returned to anyone else who asks for one meanwhile
+  private starting?: Promise<void>;
+  // Shutdown in progress; starts wait for it, so the old process's exit is
+  // never taken for the new one's
+  private stopping?: Promise<void>;
+  // Keyed by the proxy-assigned id written to stdin, so clients that reuse the
+  // same JSON-RPC ids never see each other's responses
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private sessionRequests: Map<string, Set<number>> = new Map();
+  private nextRequestId = 1;
+  private sessions: Map<string, AttachedSession> = new Map();
+  // Server-to-client requests (sampling, elicitation, roots) awaiting a reply,
+  // keyed by the server's id and mapped to the session they were sent to. The
+  // session may be attached to another replica
+  private serverRequests: Map<JSONRPCId, string> = new Map();
+  private resourceSubscriptions: Map<string, Set<string>> = new Map();
+  private serverInitialize?: ServerInitializeResult;
   private buffer: string = '';
+  private stderrBuffer: string = '';
+  // Set through setLogLevel, and kept across restarts
+  private logLevel?: LoggingLevel;
   private restartTimeout?: NodeJS.Timeout;
+  private lastActivity = Date.now();
+  // Set when the process is killed for exceeding maxMemory, so the exit is
+  // handled per memoryPolicy instead of as a crash
+  private memoryLimitAction?: 'restart' | 'kill';
+  // Every replica of the service, this one included, when it runs several
+  private replicaSet?: MCPProcess[];
 
   constructor(public config: MCPConfig) {
     super();
@@ -58,65 +241,199 @@ export class MCPProcess extends EventEmitter {
   }
 
   async start(): Promise<void> {
+    while (this.stopping) {
+      await this.stopping;
+    }
+
+    if (this.starting) {
+      return this.starting;
+    }
+
     if (this.state.status === 'running') {
       logger.warn(`MCP ${this.config.id} is already running`);
       return;
     }
 
+    this.starting = this.launch().finally(() => {
+      this.starting = undefined;
+    });
+    return this.starting;
+  }
+
+  private async launch(): Promise<void> {
+    // Only restarts made by the restart policy count towards maxRestarts
+    if (this.state.status !== 'restarting') {
+      this.state.restartCount = 0;
+    }
+
     this.state.status = 'starting';
     this.emit('status', this.state.status);
 
     try {
-      const workingDir = `${this.config.repository.path}/${this.config.id}`;
-      
-      this.process = spawn('node', [this.config.repository.entryPoint], {
-        cwd: workingDir,
-        env: {
-          ...process.env,
-          ...this.config.environment,
-        },
-        stdio: ['pipe', 'pipe', 'pipe'],
-      });
-
-      this.process.stdout?.on('data', (data) => this.handleStdout(data));
-      this.process.stderr?.on('data', (data) => this.handleStderr(data));
-      
-      this.process.on('exit', (code, signal) => {
-        this.handleProcessExit(code, signal);
-      });
-
-      this.process.on('error', (error) => {
-        logger.error(`MCP ${this.config.id} process error:`, error);
-        this.state.lastError = error.message;
-        this.handleProcessExit(1, null);
-      });
+      if (this.config.type === 'remote') {
+        await this.connectRemote();
+      } else {
+        this.spawnProcess();
+      }
 
       this.state = {
         ...this.state,
-        status: 'running',
-        pid: this.process.pid,
+        pid: this.process?.pid,
         startTime: new Date(),
       };
 
+      await this.initializeServer();
+
+      this.lastActivity = Date.now();
+      this.state.status = 'running';
       this.emit('status', this.state.status);
       this.startHealthCheck();
+      this.startIdleCheck();
+      this.applyLogLevel().catch((error) => {
+        logger.warn(`Failed to restore log level of MCP ${this.config.id}:`, error);
+      });
       
-      logger.info(`MCP ${this.config.id} started with PID ${this.process.pid}`);
+      if (this.remote) {
+        logger.info(`MCP ${this.config.id} connected to ${this.config.remote!.url}`);
+        this.log('info', `Connected to ${this.config.remote!.url}`);
+      } else {
+        logger.info(`MCP ${this.config.id} started with PID ${this.state.pid}`);
+        this.log('info', `Started with PID ${this.state.pid}`);
+      }
     } catch (error) {
       logger.error(`Failed to start MCP ${this.config.id}:`, error);
-      this.state.status = 'crashed';
       this.state.lastError = error instanceof Error ? error.message : String(error);
-      this.emit('status', this.state.status);
+      this.log('error', `Failed to start: ${this.state.lastError}`);
+      if (this.state.status === 'starting') {
+        this.state.status = 'crashed';
+        this.emit('status', this.state.status);
+      }
+      // A killed process reports its exit, which applies the restart policy;
+      // a remote connection has no exit of its own
+      this.killProcessGroup('SIGKILL');
+      if (this.remote) {
+        this.remote.close();
+        this.handleProcessExit(null, null);
+      }
       throw error;
     }
   }
 
+  private resolveCommand(): { command: string; args: string[]; cwd: string } {
+    const { runtime, repository } = this.config;
+    const serviceDir = `${repository.path}/${this.config.id}`;
+
+    if (!runtime.command) {
+      return {
+        command: 'node',
+        args: [repository.entryPoint, ...runtime.args],
+        cwd: runtime.workingDirectory ? path.resolve(serviceDir, runtime.workingDirectory) : serviceDir,
+      };
+    }
+
+    // Package runners such as `npx -y` or `uvx` have no checkout to run in
+    const cwd = runtime.workingDirectory
+      ? path.resolve(serviceDir, runtime.workingDirectory)
+      : existsSync(serviceDir) ? serviceDir : process.cwd();
+
+    return { command: runtime.command, args: runtime.args, cwd };
+  }
+
+  private spawnProcess(): void {
+    const { command, args, cwd } = this.resolveCommand();
+    logger.debug(`Spawning MCP ${this.config.id}: ${command} ${args.join(' ')} (cwd ${cwd})`);
+
+    this.process = spawn(command, args, {
+      cwd,
+      env: {
+        ...process.env,
+        ...this.config.environment,
+      },
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Its own process group, so servers started through wrappers such as
+      // npx or uvx can be signalled together with the wrapper
+      detached: true,
+    });
+    const child = this.process;
+
+    this.process.stdout?.on('data', (data) => this.handleStdout(data));
+    this.process.stderr?.on('data', (data) => this.handleStderr(data));
+    // Writes racing the exit of a killed process fail with EPIPE; the exit
+    // itself is handled below
+    this.process.stdin?.on('error', (error) => {
+      logger.debug(`MCP ${this.config.id} stdin closed: ${error.message}`);
+    });
+
+    this.process.on('exit', (code, signal) => {
+      // Whatever the wrapper left behind would keep its memory and the pipes
+      signalProcessGroup(child.pid, 'SIGKILL');
+      // A process that outlived its shutdown's timeout may exit after its
+      // replacement started
+      if (child !== this.process) return;
+      this.handleProcessExit(code, signal);
+    });
+
+    this.process.on('error', (error) => {
+      if (child !== this.process) return;
+      logger.error(`MCP ${this.config.id} process error:`, error);
+      this.state.lastError = error.message;
+      this.handleProcessExit(1, null);
+    });
+  }
+
+  private async connectRemote(): Promise<void> {
+    if (!this.config.remote) {
+      throw new Error(`MCP ${this.config.id} has no remote URL configured`);
+    }
+
+    const remote = new RemoteUpstream(this.config.id, this.config.remote);
+    this.remote = remote;
+
+    remote.on('message', (message: JSONRPCMessage) => this.handleMessage(message));
+    remote.on('close', (error: Error) => {
+      if (this.remote !== remote) return;
+      logger.error(`MCP ${this.config.id} lost connection to ${this.config.remote!.url}: ${error.message}`);
+      this.state.lastError = error.message;
+      this.handleProcessExit(null, null);
+    });
+
+    await remote.connect(this.config.proxy.timeout);
+  }
+
   async stop(): Promise<void> {
+    if (this.state.status === 'idle') {
+      this.state.status = 'stopped';
+      this.emit('status', this.state.status);
+      return;
+    }
+
+    await this.shutdown('stopped');
+  }
+
+  /**
+   * Stops the process or remote connection. `idle` leaves the service able to
+   * start again on demand.
+   */
+  private async shutdown(status: 'stopped' | 'idle'): Promise<void> {
+    const stopping = this.halt(status);
+    this.stopping = stopping;
+
+    try {
+      await stopping;
+    } finally {
+      if (this.stopping === stopping) {
+        this.stopping = undefined;
+      }
+    }
+  }
+
+  private async halt(status: 'stopped' | 'idle'): Promise<void> {
     if (this.state.status === 'stopped') {
       return;
     }
 
     this.stopHealthCheck();
+    this.stopIdleCheck();
     
     if (this.restartTimeout) {
       clearTimeout(this.restartTimeout);
@@ -124,27 +441,39 @@ export class MCPProcess extends EventEmitter {
     }
 
     if (this.process) {
-      this.state.status = 'stopped';
+      const child = this.process;
+      this.state.status = status;
       this.emit('status', this.state.status);
       
-      this.process.kill('SIGTERM');
+      this.killProcessGroup('SIGTERM');
       
       await new Promise<void>((resolve) => {
         const timeout = setTimeout(() => {
-          if (this.process && !this.process.killed) {
-            this.process.kill('SIGKILL');
-          }
+          this.killProcessGroup('SIGKILL');
           resolve();
         }, 5000);
 
-        this.process?.once('exit', () => {
+        child.once('exit', () => {
           clearTimeout(timeout);
           resolve();
         });
       });
 
-      this.process = undefined;
+      if (this.process === child) {
+        this.process = undefined;
+      }
+      logger.info(`MCP ${this.config.id} stopped`);
+    } else if (this.remote) {
+      this.state.status = status;
+      this.emit('status', this.state.status);
+
+      await this.remote.close();
+      this.handleProcessExit(null, null);
       logger.info(`MCP ${this.config.id} stopped`);
+    } else {
+      // Crashed, failed or waiting to restart
+      this.state.status = status;
+      this.emit('status', this.state.status);
     }
   }
 
@@ -154,25 +483,557 @@ export class MCPProcess extends EventEmitter {
     await this.start();
   }
 
-  async sendRequest(request: JSONRPCRequest): Promise<JSONRPCResponse> {
-    if (this.state.status !== 'running' || !this.process?.stdin) {
+  /**
+   * Forwards a client request under a proxy-assigned id and resolves with the
+   * response re-keyed to the caller's original id and translated to the
+   * caller's protocol revision.
+   */
+  async sendRequest(request: JSONRPCRequest, context: RequestContext = {}): Promise<JSONRPCResponse> {
+    const started = performance.now();
+    let failed = true;
+
+    try {
+      const response = await this.routeRequest(request, context);
+      failed = response.error !== undefined;
+      return response;
+    } finally {
+      recordRequest(this.config.id, request.method, failed, (performance.now() - started) / 1000);
+    }
+  }
+
+  private async routeRequest(request: JSONRPCRequest, context: RequestContext): Promise<JSONRPCResponse> {
+    await this.wake();
+
+    if (this.state.status !== 'running' || !this.isConnected()) {
       throw new Error(`MCP ${this.config.id} is not running`);
     }
 
+    if (request.method === 'initialize') {
+      return this.answerInitialize(request, context.sessionId);
+    }
+
+    const { sessionId } = context;
+    const balanced = !sessionId ||
+      (!this.config.process.sessionAffinity && !SUBSCRIPTION_METHODS.includes(request.method));
+    const target = balanced ? this.selectReplica() : this;
+    target.lastActivity = Date.now();
+
+    if (target !== this) {
+      return target.forward(request, {
+        ...context,
+        protocolVersion: this.getClientProtocolVersion(sessionId) ?? context.protocolVersion,
+      }, this);
+    }
+
+    return this.forward(request, context, this);
+  }
+
+  /**
+   * Whether requests may be sent now: the service is running, or has scaled
+   * to zero and will be started by the request.
+   */
+  canServe(): boolean {
+    return this.state.status === 'running' || this.state.status === 'idle' || this.waking !== undefined;
+  }
+
+  /**
+   * Starts an idle service and waits until it is ready, for at most
+   * `process.coldStartTimeout` seconds.
+   */
+  async wake(): Promise<void> {
+    if (this.state.status !== 'idle' && !this.waking) {
+      return;
+    }
+
+    if (!this.waking) {
+      logger.info(`Cold-starting MCP ${this.config.id}`);
+      this.waking = this.start().finally(() => {
+        this.waking = undefined;
+      });
+    }
+
+    const seconds = this.config.process.coldStartTimeout;
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        this.waking,
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(() => reject(new Error(`MCP ${this.config.id} did not start within ${seconds}s`)), seconds * 1000);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  joinReplicaSet(replicas: MCPProcess[]): void {
+    this.replicaSet = replicas;
+  }
+
+  private getReplicas(): MCPProcess[] {
+    return this.replicaSet ?? [this];
+  }
+
+  /**
+   * The process the sessions this one serves are attached to. Without
+   * session affinity that is the service's first replica, whichever replica
+   * handles their requests.
+   */
+  private getSessionHost(): MCPProcess {
+    return this.config.process.sessionAffinity ? this : this.getReplicas()[0];
+  }
+
+  private isAvailable(): boolean {
+    return this.state.status === 'running' && this.isConnected();
+  }
+
+  /**
+   * Picks the running replica with the fewest outstanding requests. Ties go
+   * to the one with fewer attached sessions, then to the one that has been
+   * idle longest, so sessions and light traffic are spread too.
+   */
+  selectReplica(): MCPProcess {
+    let selected: MCPProcess = this;
+
+    for (const replica of this.getReplicas()) {
+      if (!replica.isAvailable()) continue;
+
+      if (!selected.isAvailable() || replica.compareLoad(selected) < 0) {
+        selected = replica;
+      }
+    }
+
+    return selected;
+  }
+
+  private compareLoad(other: MCPProcess): number {
+    return (this.pendingRequests.size - other.pendingRequests.size) ||
+      (this.sessions.size - other.sessions.size) ||
+      (this.lastActivity - other.lastActivity);
+  }
+
+  private async forward(
+    request: JSONRPCRequest,
+    context: RequestContext = {},
+    origin?: MCPProcess,
+  ): Promise<JSONRPCResponse> {
+    const { sessionId, signal } = context;
+    const protocolVersion = this.getClientProtocolVersion(sessionId) ?? context.protocolVersion;
+    const internalId = this.nextRequestId++;
+    origin?.touchSession(sessionId);
+
+    // Progress tokens are rewritten to the internal id as well, so progress
+    // notifications can be matched to the request that asked for them
+    const progressToken = request.params?._meta?.progressToken;
+    const outgoing: JSONRPCRequest = progressToken === undefined
+      ? { ...request, id: internalId }
+      : {
+          ...request,
+          id: internalId,
+          params: {
+            ...request.params,
+            _meta: { ...request.params._meta, progressToken: internalId },
+          },
+        };
+
+    if (sessionId) {
+      this.trackSubscription(request, sessionId);
+    }
+
     return new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
-        this.requestCallbacks.delete(request.id);
-        reject(new Error(`Request timeout for MCP ${this.config.id}`));
+        this.cancelPendingRequest(
+          internalId,
+          'Request timed out',
+          new Error(`Request timeout for MCP ${this.config.id}`),
+        );
       }, this.config.proxy.timeout);
 
-      this.requestCallbacks.set(request.id, (response) => {
-        clearTimeout(timeout);
-        resolve(response);
+      this.pendingRequests.set(internalId, {
+        sessionId,
+        origin,
+        protocolVersion,
+        originalId: request.id,
+        method: request.method,
+        progressToken,
+        timeout,
+        resolve: (response) => {
+          const translated = protocolVersion && response.result !== undefined
+            ? { ...response, result: translateResult(request.method, response.result, protocolVersion) }
+            : response;
+          resolve({ ...translated, id: request.id });
+        },
+        reject,
       });
 
-      const message = JSON.stringify(request) + '\n';
-      this.process!.stdin!.write(message);
+      if (sessionId) {
+        if (!this.sessionRequests.has(sessionId)) {
+          this.sessionRequests.set(sessionId, new Set());
+        }
+        this.sessionRequests.get(sessionId)!.add(internalId);
+      }
+
+      signal?.addEventListener('abort', () => {
+        this.cancelPendingRequest(internalId, 'Client disconnected');
+      }, { once: true });
+
+      this.writeToServer(outgoing);
+    });
+  }
+
+  /**
+   * Runs the MCP handshake once per process start. Clients never reach the
+   * server's own `initialize`; they are answered from this cached result.
+   */
+  private async initializeServer(): Promise<void> {
+    const response = await this.forward({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: PROXY_CLIENT_CAPABILITIES,
+        clientInfo: PROXY_CLIENT_INFO,
+      },
     });
+
+    if (response.error) {
+      throw new Error(`MCP ${this.config.id} rejected initialize: ${response.error.message}`);
+    }
+
+    this.serverInitialize = response.result as ServerInitializeResult;
+    this.writeToServer({ jsonrpc: '2.0', method: 'notifications/initialized' });
+
+    const { serverInfo, protocolVersion } = this.serverInitialize;
+    logger.info(`MCP ${this.config.id} initialized: ${serverInfo?.name} ${serverInfo?.version} (protocol ${protocolVersion})`);
+  }
+
+  private answerInitialize(request: JSONRPCRequest, sessionId?: string): JSONRPCResponse {
+    const upstream = this.serverInitialize!;
+    const protocolVersion = negotiateProtocolVersion(request.params?.protocolVersion, upstream.protocolVersion);
+
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (session) {
+      session.protocolVersion = protocolVersion;
+      session.clientInfo = request.params?.clientInfo;
+      session.clientCapabilities = request.params?.capabilities;
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: translateResult('initialize', { ...upstream, protocolVersion }, protocolVersion),
+    };
+  }
+
+  private getClientProtocolVersion(sessionId?: string): string | undefined {
+    return sessionId ? this.sessions.get(sessionId)?.protocolVersion : undefined;
+  }
+
+  getServerInfo(): ServerInitializeResult | undefined {
+    return this.serverInitialize;
+  }
+
+  getLastActivity(): number {
+    return this.lastActivity;
+  }
+
+  getPendingRequestCount(sessionId?: string): number {
+    if (sessionId === undefined) {
+      return this.pendingRequests.size;
+    }
+    return this.sessionRequests.get(sessionId)?.size ?? 0;
+  }
+
+  private removePendingRequest(internalId: number): PendingRequest | undefined {
+    const pending = this.pendingRequests.get(internalId);
+    if (!pending) {
+      return undefined;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(internalId);
+    if (pending.sessionId) {
+      const ids = this.sessionRequests.get(pending.sessionId);
+      ids?.delete(internalId);
+      if (ids?.size === 0) {
+        this.sessionRequests.delete(pending.sessionId);
+      }
+    }
+
+    return pending;
+  }
+
+  /**
+   * Drops a pending request and tells the server to stop working on it, so an
+   * abandoned tool call does not keep running after its caller is gone.
+   */
+  private cancelPendingRequest(internalId: number, reason: string, error?: Error): void {
+    const pending = this.removePendingRequest(internalId);
+    if (!pending) {
+      return;
+    }
+
+    // The spec forbids cancelling initialize
+    if (pending.method !== 'initialize') {
+      this.writeToServer({
+        jsonrpc: '2.0',
+        method: 'notifications/cancelled',
+        params: { requestId: internalId, reason },
+      });
+    }
+
+    logger.debug(`Cancelled ${pending.method} request ${pending.originalId} on MCP ${this.config.id}: ${reason}`);
+    pending.reject(error ?? new Error(reason));
+  }
+
+  private findSessionRequest(sessionId: string | undefined, originalId: JSONRPCId): number | undefined {
+    if (!sessionId) {
+      return undefined;
+    }
+
+    for (const internalId of this.sessionRequests.get(sessionId) ?? []) {
+      if (this.pendingRequests.get(internalId)?.originalId === originalId) {
+        return internalId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Writes a message that expects no reply to the child's stdin. Responses are
+   * only accepted for server-initiated requests that were routed to the same
+   * session.
+   */
+  send(message: JSONRPCMessage, sessionId?: string): void {
+    // Nothing a client sends without expecting a reply needs an idle server
+    if (this.state.status === 'idle') {
+      logger.debug(`Dropping message for idle MCP ${this.config.id}`);
+      return;
+    }
+
+    if (this.state.status !== 'running' || !this.isConnected()) {
+      throw new Error(`MCP ${this.config.id} is not running`);
+    }
+
+    this.lastActivity = Date.now();
+    this.touchSession(sessionId);
+
+    if (isResponse(message)) {
+      // The replica that asked gets the answer
+      const replica = message.id === null
+        ? undefined
+        : this.getReplicas().find(candidate => candidate.serverRequests.get(message.id!) === sessionId);
+      if (!replica) {
+        logger.warn(`Dropping response ${message.id} from session ${sessionId} of MCP ${this.config.id}: no matching server request`);
+        return;
+      }
+      replica.serverRequests.delete(message.id!);
+      replica.writeToServer(message);
+      return;
+    } else if (message.method === 'notifications/initialized') {
+      // The proxy already completed the handshake with the server
+      return;
+    } else if (message.method === 'notifications/cancelled') {
+      // Cancellations name the client's own request id, which the server never
+      // saw, and the request may be on any replica
+      for (const replica of this.getReplicas()) {
+        const internalId = replica.findSessionRequest(sessionId, message.params?.requestId);
+        if (internalId !== undefined) {
+          replica.cancelPendingRequest(internalId, message.params?.reason ?? 'Cancelled by client');
+          return;
+        }
+      }
+      logger.debug(`Ignoring cancellation of unknown request ${message.params?.requestId} on MCP ${this.config.id}`);
+      return;
+    }
+
+    this.writeToServer(message);
+  }
+
+  /**
+   * Registers a client connection so server-initiated requests can be routed
+   * back to it.
+   */
+  attachSession(sessionId: string, deliver: (message: JSONRPCMessage) => void): void {
+    this.sessions.set(sessionId, { deliver, lastActivity: Date.now() });
+  }
+
+  detachSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+
+    for (const replica of this.getReplicas()) {
+      for (const internalId of Array.from(replica.sessionRequests.get(sessionId) ?? [])) {
+        replica.cancelPendingRequest(internalId, 'Client disconnected');
+      }
+    }
+
+    for (const [uri, subscribers] of this.resourceSubscriptions.entries()) {
+      subscribers.delete(sessionId);
+      if (subscribers.size === 0) {
+        this.resourceSubscriptions.delete(uri);
+      }
+    }
+
+    for (const replica of this.getReplicas()) {
+      for (const [id, owner] of replica.serverRequests.entries()) {
+        if (owner === sessionId) {
+          replica.serverRequests.delete(id);
+          replica.writeToServer(createErrorResponse(id, ErrorCode.ConnectionClosed, 'Client disconnected'));
+        }
+      }
+    }
+  }
+
+  private touchSession(sessionId?: string): void {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+  }
+
+  /**
+   * stdio carries no hint of which client a server request is for, so it goes
+   * to the session with the most recent in-flight request. With nothing in
+   * flight it can only go to the one attached session. While a client request
+   * without a session is in flight the request may be its, so there is no
+   * client to send it to.
+   */
+  private resolveOriginSession(): { session: AttachedSession; sessionId: string } | undefined {
+    const inFlight = Array.from(this.pendingRequests.values()).filter(pending => pending.origin);
+
+    if (inFlight.some(pending => !pending.sessionId)) {
+      return undefined;
+    }
+
+    const latest = inFlight.reverse().find(pending => pending.origin!.sessions.has(pending.sessionId!));
+    if (latest) {
+      return { session: latest.origin!.sessions.get(latest.sessionId!)!, sessionId: latest.sessionId! };
+    }
+
+    const { sessions } = this.getSessionHost();
+    if (inFlight.length > 0 || sessions.size !== 1) {
+      return undefined;
+    }
+    const [sessionId, session] = sessions.entries().next().value!;
+    return { session, sessionId };
+  }
+
+  private handleServerRequest(request: JSONRPCRequest): void {
+    const origin = this.resolveOriginSession();
+
+    if (!origin) {
+      logger.warn(`No originating client for ${request.method} from MCP ${this.config.id}`);
+      this.writeToServer(createErrorResponse(request.id, ErrorCode.InternalError, 'No originating client'));
+      return;
+    }
+
+    const { session, sessionId } = origin;
+    if (session.protocolVersion && !clientSupportsServerRequest(request.method, session.protocolVersion, session.clientCapabilities)) {
+      logger.debug(`Session ${sessionId} of MCP ${this.config.id} does not support ${request.method}`);
+      this.writeToServer(createErrorResponse(request.id, ErrorCode.MethodNotFound, `Client does not support ${request.method}`));
+      return;
+    }
+
+    this.serverRequests.set(request.id, sessionId);
+    session.deliver(session.protocolVersion ? translateServerRequest(request, session.protocolVersion) : request);
+  }
+
+  private trackSubscription(request: JSONRPCRequest, sessionId: string): void {
+    const uri = request.params?.uri;
+    if (typeof uri !== 'string') {
+      return;
+    }
+
+    if (request.method === 'resources/subscribe') {
+      if (!this.resourceSubscriptions.has(uri)) {
+        this.resourceSubscriptions.set(uri, new Set());
+      }
+      this.resourceSubscriptions.get(uri)!.add(sessionId);
+    } else if (request.method === 'resources/unsubscribe') {
+      this.resourceSubscriptions.get(uri)?.delete(sessionId);
+    }
+  }
+
+  /**
+   * Delivers notifications tied to one client's request or subscription to
+   * that client only. Everything else, such as `list_changed`, is broadcast to
+   * every attached session.
+   */
+  private routeNotification(notification: JSONRPCNotification): void {
+    this.emit('notification', notification);
+
+    const params = notification.params ?? {};
+
+    switch (notification.method) {
+      case 'notifications/progress': {
+        const pending = typeof params.progressToken === 'number'
+          ? this.pendingRequests.get(params.progressToken)
+          : undefined;
+
+        if (pending?.origin && pending.sessionId && pending.progressToken !== undefined) {
+          pending.origin.deliverTo(pending.sessionId, {
+            ...notification,
+            params: { ...params, progressToken: pending.progressToken },
+          });
+        } else {
+          logger.debug(`Dropping progress for unknown token ${params.progressToken} from MCP ${this.config.id}`);
+        }
+        return;
+      }
+
+      case 'notifications/cancelled': {
+        const owner = this.serverRequests.get(params.requestId);
+        if (owner) {
+          this.serverRequests.delete(params.requestId);
+          this.getSessionHost().deliverTo(owner, notification);
+        }
+        return;
+      }
+
+      case 'notifications/message':
+        this.recordLogNotification(params);
+        break;
+
+      case 'notifications/resources/updated': {
+        const subscribers = this.resourceSubscriptions.get(params.uri);
+        if (subscribers && subscribers.size > 0) {
+          for (const sessionId of subscribers) {
+            this.deliverTo(sessionId, notification);
+          }
+          return;
+        }
+        break;
+      }
+    }
+
+    const host = this.getSessionHost();
+    for (const sessionId of host.sessions.keys()) {
+      host.deliverTo(sessionId, notification);
+    }
+  }
+
+  private deliverTo(sessionId: string, notification: JSONRPCNotification): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    session.deliver(session.protocolVersion
+      ? translateNotification(notification, session.protocolVersion)
+      : notification);
+  }
+
+  private isConnected(): boolean {
+    return this.remote !== undefined || !!this.process?.stdin;
+  }
+
+  private writeToServer(message: JSONRPCMessage): void {
+    if (this.remote) {
+      this.remote.send(message);
+    } else {
+      this.process?.stdin?.write(JSON.stringify(message) + '\n');
+    }
   }
 
   private handleStdout(data: Buffer): void {
@@ -184,73 +1045,357 @@ export class MCPProcess extends EventEmitter {
     for (const line of lines) {
       if (!line.trim()) continue;
       
+      let message: JSONRPCMessage;
       try {
-        const message = parseJSONRPCMessage(line);
-        
-        if ('id' in message && this.requestCallbacks.has(message.id)) {
-          const callback = this.requestCallbacks.get(message.id)!;
-          this.requestCallbacks.delete(message.id);
-          callback(message as JSONRPCResponse);
-        } else {
-          this.emit('notification', message);
-        }
+        message = parseMessage(line);
       } catch (error) {
         logger.debug(`Non-JSON output from MCP ${this.config.id}: ${line}`);
-        this.emit('log', line);
+        this.log(parseLogLevel(line), line, 'stdout');
+        continue;
       }
+
+      this.handleMessage(message);
+    }
+  }
+
+  private handleMessage(message: JSONRPCMessage): void {
+    const pending = isResponse(message) && typeof message.id === 'number'
+      ? this.removePendingRequest(message.id)
+      : undefined;
+
+    if (pending) {
+      pending.resolve(message as JSONRPCResponse);
+    } else if (isRequest(message)) {
+      this.handleServerRequest(message);
+    } else if (isNotification(message)) {
+      this.routeNotification(message);
+    } else {
+      logger.debug(`Dropping response ${message.id} with no pending request from MCP ${this.config.id}`);
     }
   }
 
   private handleStderr(data: Buffer): void {
-    const message = data.toString();
-    logger.error(`MCP ${this.config.id} stderr: ${message}`);
-    this.emit('error', message);
+    this.stderrBuffer += data.toString();
+
+    const lines = this.stderrBuffer.split('\n');
+    this.stderrBuffer = lines.pop() || '';
+
+    for (const line of lines) {
+      this.handleStderrLine(line);
+    }
+  }
+
+  private flushStderr(): void {
+    const line = this.stderrBuffer;
+    this.stderrBuffer = '';
+    this.handleStderrLine(line);
+  }
+
+  /**
+   * stderr is where MCP servers log, so lines are recorded at the level they
+   * carry and handed to `stderr` listeners.
+   */
+  private handleStderrLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+
+    logger.debug(`MCP ${this.config.id} stderr: ${line}`);
+    this.log(parseLogLevel(line), line, 'stderr');
+    this.emit('stderr', line);
+  }
+
+  private log(
+    level: LogLevel,
+    message: string,
+    source: ServiceLogEntry['source'] = 'lifecycle',
+    metadata?: Record<string, unknown>,
+  ): void {
+    const entry: ServiceLogEntry = { level, message, source, metadata };
+    this.emit('log', entry);
+  }
+
+  /**
+   * Stores a `notifications/message` with its logger name and data. Clients
+   * still receive the notification as well.
+   */
+  private recordLogNotification(params: Record<string, any>): void {
+    const { level, logger: loggerName, data } = params;
+    const message = typeof data === 'string' ? data : JSON.stringify(data);
+
+    this.log(
+      logLevelFromName(String(level)) ?? 'info',
+      loggerName ? `[${loggerName}] ${message}` : message,
+      'notification',
+      { logger: loggerName, level, data },
+    );
+  }
+
+  /**
+   * Asks the server for `notifications/message` at `level` and above. The
+   * level is applied again whenever the process restarts.
+   */
+  async setLogLevel(level: LoggingLevel): Promise<void> {
+    this.logLevel = level;
+
+    if (this.state.status === 'running' || this.state.status === 'unhealthy') {
+      await this.applyLogLevel();
+    }
+  }
+
+  getLogLevel(): LoggingLevel | undefined {
+    return this.logLevel;
+  }
+
+  private async applyLogLevel(): Promise<void> {
+    if (!this.logLevel) {
+      return;
+    }
+
+    if (!this.serverInitialize?.capabilities?.logging) {
+      throw new Error(`MCP ${this.config.id} does not support logging`);
+    }
+
+    const response = await this.forward({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'logging/setLevel',
+      params: { level: this.logLevel },
+    });
+
+    if (response.error) {
+      throw new Error(`MCP ${this.config.id} rejected log level ${this.logLevel}: ${response.error.message}`);
+    }
+  }
+
+  /**
+   * Takes a resource sample of this process tree and enforces maxMemory.
+   */
+  recordResourceUsage(usage: ResourceUsage): void {
+    this.state.cpuUsage = usage.cpu;
+    this.state.memoryUsage = usage.memory;
+
+    const { maxMemory, memoryPolicy } = this.config.process;
+    const limit = parseMemoryLimit(maxMemory);
+    if (limit === undefined || usage.memory <= limit || this.state.status !== 'running' || !this.process) {
+      return;
+    }
+
+    this.state.lastError = `Memory limit exceeded: ${formatBytes(usage.memory)} RSS over ${maxMemory}`;
+    logger.warn(`MCP ${this.config.id} ${this.state.lastError}, ${memoryPolicy === 'kill' ? 'killing' : 'restarting'} it`);
+    this.log('error', this.state.lastError);
+
+    this.memoryLimitAction = memoryPolicy;
+    this.killProcessGroup('SIGKILL');
+  }
+
+  /**
+   * Signals the process and everything it spawned.
+   */
+  private killProcessGroup(signal: NodeJS.Signals): void {
+    if (this.process && !signalProcessGroup(this.process.pid, signal)) {
+      this.process.kill(signal);
+    }
   }
 
   private handleProcessExit(code: number | null, signal: NodeJS.Signals | null): void {
     logger.info(`MCP ${this.config.id} exited with code ${code}, signal ${signal}`);
+    this.state.lastExit = { code, signal, timestamp: new Date() };
+    this.flushStderr();
+
+    const expected = this.state.status === 'stopped' || this.state.status === 'idle' || (code === 0 && signal === null);
+    this.log(expected ? 'info' : 'error', `Exited with code ${code}, signal ${signal}`);
     
+    const memoryLimitAction = this.memoryLimitAction;
+    this.memoryLimitAction = undefined;
+
     this.stopHealthCheck();
+    this.stopIdleCheck();
     this.process = undefined;
+    this.remote = undefined;
+    this.state.cpuUsage = undefined;
+    this.state.memoryUsage = undefined;
+    this.serverRequests.clear();
+    this.serverInitialize = undefined;
+
+    for (const internalId of Array.from(this.pendingRequests.keys())) {
+      this.removePendingRequest(internalId)?.reject(new Error(`MCP ${this.config.id} exited`));
+    }
     
     const previousStatus = this.state.status;
     
-    if (previousStatus === 'stopped') {
+    if (previousStatus === 'stopped' || previousStatus === 'idle') {
       return;
     }
     
+    // Restarts after exceeding the memory limit go through the restart
+    // policy below like any crash, so a server over the limit from the start
+    // backs off and ends up failed
+    if (memoryLimitAction === 'kill') {
+      this.state.status = 'crashed';
+      this.emit('status', this.state.status);
+      return;
+    }
+
+    // Exiting with code 0 on its own is a clean exit rather than a crash
+    const clean = code === 0 && signal === null;
+    const policy = this.getRestartPolicy();
+
+    if (policy === 'never' || (policy === 'on-failure' && clean)) {
+      this.state.status = clean ? 'stopped' : 'crashed';
+      this.emit('status', this.state.status);
+      return;
+    }
+
     this.state.status = 'crashed';
     this.emit('status', this.state.status);
-    
-    if (this.config.process.autoRestart && this.state.restartCount < this.config.process.maxRestarts) {
-      this.state.restartCount++;
-      this.state.status = 'restarting';
+
+    const { maxRestarts, restartBackoff, restartBackoffMax, stableUptime } = this.config.process;
+    const uptime = this.state.startTime ? Date.now() - this.state.startTime.getTime() : 0;
+    if ((previousStatus === 'running' || previousStatus === 'unhealthy') && uptime >= stableUptime * 1000) {
+      this.state.restartCount = 0;
+    }
+
+    if (this.state.restartCount >= maxRestarts) {
+      logger.error(`MCP ${this.config.id} crashed ${this.state.restartCount + 1} times in a row, giving up`);
+      this.log('error', `Crashed ${this.state.restartCount + 1} times in a row, giving up`);
+      this.state.status = 'failed';
       this.emit('status', this.state.status);
-      
-      const delay = Math.min(1000 * Math.pow(2, this.state.restartCount), 30000);
-      logger.info(`Restarting MCP ${this.config.id} in ${delay}ms (attempt ${this.state.restartCount})`);
-      
-      this.restartTimeout = setTimeout(() => {
-        this.start().catch(error => {
-          logger.error(`Failed to restart MCP ${this.config.id}:`, error);
-        });
-      }, delay);
-    } else if (this.state.restartCount >= this.config.process.maxRestarts) {
-      logger.error(`MCP ${this.config.id} exceeded max restart attempts`);
+      return;
     }
+
+    this.state.restartCount++;
+    recordRestart(this.config.id);
+    this.state.status = 'restarting';
+    this.emit('status', this.state.status);
+
+    const delay = Math.min(restartBackoff * 1000 * Math.pow(2, this.state.restartCount - 1), restartBackoffMax * 1000);
+    logger.info(`Restarting MCP ${this.config.id} in ${delay}ms (attempt ${this.state.restartCount})`);
+    this.log('warn', `Restarting in ${delay}ms (attempt ${this.state.restartCount})`);
+
+    this.restartTimeout = setTimeout(() => {
+      this.restartTimeout = undefined;
+      this.start().catch(error => {
+        logger.error(`Failed to restart MCP ${this.config.id}:`, error);
+      });
+    }, delay);
   }
 
+  private getRestartPolicy(): MCPConfig['process']['restartPolicy'] {
+    return this.config.process.autoRestart ? this.config.process.restartPolicy : 'never';
+  }
+
+  /**
+   * Probes the server over its own transport, so a process that is alive but
+   * hung is caught too. Probes do not count as activity for scale to zero.
+   */
   private startHealthCheck(): void {
-    this.healthCheckInterval = setInterval(() => {
-      if (this.process && this.process.pid) {
-        try {
-          process.kill(this.process.pid, 0);
-        } catch {
-          logger.warn(`MCP ${this.config.id} process not responding`);
-          this.handleProcessExit(null, null);
-        }
+    const { healthCheckInterval } = this.config.process;
+    if (healthCheckInterval <= 0) {
+      return;
+    }
+
+    this.consecutiveHealthFailures = 0;
+    let probing = false;
+
+    this.healthCheckInterval = setInterval(async () => {
+      if (probing || (this.state.status !== 'running' && this.state.status !== 'unhealthy')) {
+        return;
+      }
+
+      probing = true;
+      try {
+        this.recordHealthCheck(await this.probe());
+      } finally {
+        probing = false;
       }
-    }, this.config.process.healthCheckInterval * 1000);
+    }, healthCheckInterval * 1000);
+  }
+
+  private async probe(): Promise<HealthCheckResult> {
+    const method = this.config.process.healthCheckMethod;
+    const timeoutMs = Math.min(this.config.proxy.timeout, this.config.process.healthCheckInterval * 1000);
+    const started = Date.now();
+
+    try {
+      const response = await this.forward(
+        { jsonrpc: '2.0', id: 0, method },
+        { signal: AbortSignal.timeout(timeoutMs) },
+      );
+
+      // Any answer to a ping shows the server is responsive; tools/list must
+      // also succeed
+      const healthy = method === 'ping' || !response.error;
+      return {
+        timestamp: new Date(),
+        method,
+        healthy,
+        latency: Date.now() - started,
+        error: healthy ? undefined : response.error?.message,
+      };
+    } catch (error) {
+      return {
+        timestamp: new Date(),
+        method,
+        healthy: false,
+        error: Date.now() - started >= timeoutMs
+          ? `No response within ${timeoutMs}ms`
+          : error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private recordHealthCheck(result: HealthCheckResult): void {
+    this.lastHealthCheck = result;
+
+    if (result.healthy) {
+      this.consecutiveHealthFailures = 0;
+      if (this.state.status === 'unhealthy') {
+        logger.info(`MCP ${this.config.id} is healthy again`);
+        this.state.status = 'running';
+        this.emit('status', this.state.status);
+      }
+      return;
+    }
+
+    this.consecutiveHealthFailures++;
+    logger.warn(`MCP ${this.config.id} health check failed (${this.consecutiveHealthFailures} in a row): ${result.error}`);
+
+    const { healthCheckThreshold } = this.config.process;
+    if (this.consecutiveHealthFailures < healthCheckThreshold || this.state.status !== 'running') {
+      return;
+    }
+
+    this.state.status = 'unhealthy';
+    this.state.lastError = `Failed ${this.consecutiveHealthFailures} health checks: ${result.error}`;
+    this.log('warn', `Unhealthy: ${this.state.lastError}`);
+    this.emit('status', this.state.status);
+
+    if (this.getRestartPolicy() !== 'never') {
+      this.terminate();
+    }
+  }
+
+  /**
+   * Ends a misbehaving process or connection so the exit is handled like a
+   * crash, restarts included.
+   */
+  private terminate(): void {
+    this.stopHealthCheck();
+
+    if (this.process) {
+      this.killProcessGroup('SIGKILL');
+    } else if (this.remote) {
+      this.remote.close();
+      this.handleProcessExit(null, null);
+    }
+  }
+
+  getHealth(): { lastCheck?: HealthCheckResult; consecutiveFailures: number } {
+    return {
+      lastCheck: this.lastHealthCheck,
+      consecutiveFailures: this.consecutiveHealthFailures,
+    };
   }
 
   private stopHealthCheck(): void {
@@ -260,17 +1405,55 @@ export class MCPProcess extends EventEmitter {
     }
   }
 
+  /**
+   * Scales the service to zero once no replica has had a request for
+   * `process.idleTimeout` seconds.
+   */
+  private startIdleCheck(): void {
+    const { idleTimeout } = this.config.process;
+    if (idleTimeout <= 0) {
+      return;
+    }
+
+    this.idleCheckInterval = setInterval(() => {
+      const now = Date.now();
+      const idle = this.getReplicas().every(replica =>
+        replica.pendingRequests.size === 0 && now - replica.lastActivity > idleTimeout * 1000,
+      );
+
+      if (idle && this.state.status === 'running') {
+        logger.info(`MCP ${this.config.id} had no requests for ${idleTimeout}s, scaling to zero`);
+        this.log('info', `No requests for ${idleTimeout}s, scaling to zero`);
+        this.shutdown('idle').catch((error) => {
+          logger.error(`Failed to scale MCP ${this.config.id} to zero:`, error);
+        });
+      }
+    }, Math.min(idleTimeout, 30) * 1000);
+  }
+
+  private stopIdleCheck(): void {
+    if (this.idleCheckInterval) {
+      clearInterval(this.idleCheckInterval);
+      this.idleCheckInterval = undefined;
+    }
+  }
+
+  // PID of the live child process, unlike `state.pid` which outlives it
+  getPid(): number | undefined {
+    return this.process?.pid;
+  }
+
   getState(): MCPProcessState {
     return { ...this.state };
   }
 
   getMetrics() {
-    if (!this.process?.pid) {
+    if (!this.process?.pid && !this.remote) {
       return null;
     }
     
     return {
-      pid: this.process.pid,
+      pid: this.process?.pid,
       status: this.state.status,
       uptime: this.state.startTime ? Date.now() - this.state.startTime.getTime() : 0,
       restartCount: this.state.restartCount,
@@ -280,8 +1463,22 @@ export class MCPProcess extends EventEmitter {
   }
 }
 
+interface IsolatedSession {
+  serviceId: string;
+  process: MCPProcess;
+  // Tells the transport to end the client session when its process goes away
+  onClose?: () => void;
+}
+
 export class ProcessManager {
   private processes: Map<string, MCPProcess> = new Map();
+  // All replicas of services that run more than one, the service's own
+  // process first
+  private replicaSets: Map<string, MCPProcess[]> = new Map();
+  // Dedicated processes of isolated services, keyed by client session id
+  private isolatedSessions: Map<string, IsolatedSession> = new Map();
+  private sessionReaper?: NodeJS.Timeout;
+  private resourceSampler?: NodeJS.Timeout;
   
   async addProcess(config: MCPConfig): Promise<MCPProcess> {
     if (this.processes.has(config.id)) {
@@ -290,9 +1487,258 @@ export class ProcessManager {
     
     const mcpProcess = new MCPProcess(config);
     this.processes.set(config.id, mcpProcess);
+    this.startResourceSampler();
+
+    if (config.process.mode === 'shared' && config.process.replicas > 1) {
+      const replicas = [mcpProcess];
+      for (let i = 1; i < config.process.replicas; i++) {
+        // Replicas scale to zero along with the service's own process
+        const replica = new MCPProcess({
+          ...config,
+          process: { ...config.process, idleTimeout: 0 },
+        });
+        this.captureLogs(config.id, replica, { replica: i });
+        replicas.push(replica);
+      }
+
+      for (const replica of replicas) {
+        replica.joinReplicaSet(replicas);
+      }
+      this.replicaSets.set(config.id, replicas);
+    }
+
+    mcpProcess.on('status', () => this.persistState(config.id, mcpProcess));
+    this.captureLogs(config.id, mcpProcess);
+
+    // The extra replicas follow the service's own process
+    mcpProcess.on('status', (status) => {
+      if (status === 'running') {
+        this.startReplicas(config.id);
+      } else if (status === 'stopped' || status === 'idle' || status === 'failed') {
+        if (status !== 'idle') {
+          this.closeServiceSessions(config.id);
+        }
+        this.stopReplicas(config.id).catch((error) => {
+          logger.error(`Failed to stop replicas of service ${config.id}:`, error);
+        });
+      }
+    });
     
     return mcpProcess;
   }
+
+  private captureLogs(serviceId: string, mcpProcess: MCPProcess, metadata?: Record<string, unknown>): void {
+    mcpProcess.on('log', (entry: ServiceLogEntry) => {
+      recordServiceLog(serviceId, metadata ? { ...entry, metadata: { ...entry.metadata, ...metadata } } : entry);
+    });
+  }
+
+  /**
+   * Writes a service's status to its row, so it can be seen and acted on
+   * after the gateway restarts.
+   */
+  private async persistState(serviceId: string, mcpProcess: MCPProcess): Promise<void> {
+    const { status, lastError, lastExit } = mcpProcess.getState();
+
+    try {
+      await db.update(services)
+        .set({
+          status,
+          statusChangedAt: new Date().toISOString(),
+          lastError: lastError ?? null,
+          lastExitCode: lastExit?.code ?? null,
+          lastExitSignal: lastExit?.signal ?? null,
+          lastExitAt: lastExit?.timestamp.toISOString() ?? null,
+        })
+        .where(eq(services.id, serviceId));
+    } catch (error) {
+      logger.error(`Failed to record status of service ${serviceId}:`, error);
+    }
+  }
+
+  /**
+   * Changes the server log level of every process of a service, replicas and
+   * session processes included.
+   */
+  async setLogLevel(serviceId: string, level: LoggingLevel): Promise<void> {
+    await Promise.all([
+      ...this.getReplicas(serviceId),
+      ...this.getSessionProcesses(serviceId),
+    ].map(mcpProcess => mcpProcess.setLogLevel(level)));
+  }
+
+  getReplicas(serviceId: string): MCPProcess[] {
+    const mcpProcess = this.processes.get(serviceId);
+    return this.replicaSets.get(serviceId) ?? (mcpProcess ? [mcpProcess] : []);
+  }
+
+  private startReplicas(serviceId: string): void {
+    for (const replica of this.getReplicas(serviceId).slice(1)) {
+      const { status } = replica.getState();
+      if (status === 'stopped' || status === 'crashed') {
+        replica.start().catch((error) => {
+          logger.error(`Failed to start replica of service ${serviceId}:`, error);
+        });
+      }
+    }
+  }
+
+  private async stopReplicas(serviceId: string): Promise<void> {
+    await Promise.all(this.getReplicas(serviceId).slice(1).map(replica => replica.stop()));
+  }
+
+  /**
+   * Returns the process that serves a client session. Shared services hand
+   * every session the same process; isolated services spawn a dedicated one,
+   * up to `process.maxSessions` at a time.
+   */
+  async acquireSessionProcess(serviceId: string, sessionId: string, onClose?: () => void): Promise<MCPProcess> {
+    const service = this.processes.get(serviceId);
+    if (!service) {
+      throw new Error(`Service ${serviceId} not found`);
+    }
+
+    if (service.config.process.mode !== 'isolated') {
+      // Sticky sessions are placed on the least busy replica; otherwise every
+      // request is balanced from the service's own process
+      return service.config.process.sessionAffinity ? service.selectReplica() : service;
+    }
+
+    const existing = this.isolatedSessions.get(sessionId);
+    if (existing) {
+      return existing.process;
+    }
+
+    const { maxSessions } = service.config.process;
+    if (this.getSessionProcesses(serviceId).length >= maxSessions) {
+      throw new Error(`Service ${serviceId} has reached its limit of ${maxSessions} sessions`);
+    }
+
+    // A session's process dies with it, so it is never restarted on its own
+    const mcpProcess = new MCPProcess({
+      ...service.config,
+      process: { ...service.config.process, autoRestart: false, idleTimeout: 0 },
+    });
+    this.isolatedSessions.set(sessionId, { serviceId, process: mcpProcess, onClose });
+    this.captureLogs(serviceId, mcpProcess, { sessionId });
+
+    const logLevel = service.getLogLevel();
+    if (logLevel) {
+      await mcpProcess.setLogLevel(logLevel);
+    }
+
+    try {
+      await mcpProcess.start();
+    } catch (error) {
+      this.isolatedSessions.delete(sessionId);
+      throw error;
+    }
+
+    mcpProcess.on('status', (status) => {
+      if (status === 'crashed' || status === 'stopped') {
+        this.closeSession(sessionId);
+      }
+    });
+
+    this.startSessionReaper();
+    logger.info(`Spawned isolated process ${mcpProcess.getState().pid ?? ''} for session ${sessionId} of service ${serviceId}`);
+
+    return mcpProcess;
+  }
+
+  async releaseSessionProcess(sessionId: string): Promise<void> {
+    const session = this.isolatedSessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    this.isolatedSessions.delete(sessionId);
+    await session.process.stop();
+    logger.info(`Released isolated process for session ${sessionId} of service ${session.serviceId}`);
+  }
+
+  getSessionProcesses(serviceId: string): MCPProcess[] {
+    return Array.from(this.isolatedSessions.values())
+      .filter(session => session.serviceId === serviceId)
+      .map(session => session.process);
+  }
+
+  private closeSession(sessionId: string): void {
+    this.isolatedSessions.get(sessionId)?.onClose?.();
+    this.releaseSessionProcess(sessionId).catch((error) => {
+      logger.error(`Failed to release isolated process for session ${sessionId}:`, error);
+    });
+  }
+
+  private closeServiceSessions(serviceId: string): void {
+    for (const [sessionId, session] of Array.from(this.isolatedSessions.entries())) {
+      if (session.serviceId === serviceId) {
+        this.closeSession(sessionId);
+      }
+    }
+  }
+
+  /**
+   * Every process the manager supervises: each service's replicas and the
+   * dedicated processes of isolated sessions.
+   */
+  private getAllInstances(): MCPProcess[] {
+    return [
+      ...Array.from(this.processes.keys()).flatMap(id => this.getReplicas(id)),
+      ...Array.from(this.isolatedSessions.values()).map(session => session.process),
+    ];
+  }
+
+  private startResourceSampler(): void {
+    if (this.resourceSampler) {
+      return;
+    }
+
+    let sampling = false;
+    this.resourceSampler = setInterval(async () => {
+      const instances = this.getAllInstances().filter(instance => instance.getPid() !== undefined);
+      if (sampling || instances.length === 0) {
+        return;
+      }
+
+      sampling = true;
+      try {
+        const usage = await sampleProcessTrees(instances.map(instance => instance.getPid()!));
+        for (const instance of instances) {
+          const sample = usage.get(instance.getPid()!);
+          if (sample) {
+            instance.recordResourceUsage(sample);
+          }
+        }
+      } catch (error) {
+        logger.warn('Failed to sample MCP process resources:', error);
+      } finally {
+        sampling = false;
+      }
+    }, RESOURCE_SAMPLE_INTERVAL);
+  }
+
+  private startSessionReaper(): void {
+    if (this.sessionReaper) {
+      return;
+    }
+
+    this.sessionReaper = setInterval(() => {
+      const now = Date.now();
+
+      for (const [sessionId, session] of Array.from(this.isolatedSessions.entries())) {
+        const idleTimeout = session.process.config.process.sessionIdleTimeout * 1000;
+
+        if (
+          session.process.getPendingRequestCount() === 0 &&
+          now - session.process.getLastActivity() > idleTimeout
+        ) {
+          logger.info(`Reaping idle process of session ${sessionId} of service ${session.serviceId}`);
+          this.closeSession(sessionId);
+        }
+      }
+    }, 30000);
+  }
   
   getProcess(id: string): MCPProcess | undefined {
     return this.processes.get(id);
@@ -306,11 +1752,25 @@ export class ProcessManager {
     const process = this.processes.get(id);
     if (process) {
       await process.stop();
+      await this.stopReplicas(id);
       this.processes.delete(id);
+      this.replicaSets.delete(id);
     }
   }
   
   async stopAll(): Promise<void> {
+    if (this.sessionReaper) {
+      clearInterval(this.sessionReaper);
+      this.sessionReaper = undefined;
+    }
+    if (this.resourceSampler) {
+      clearInterval(this.resourceSampler);
+      this.resourceSampler = undefined;
+    }
+
+    await Promise.all(
+      Array.from(this.isolatedSessions.keys()).map(sessionId => this.releaseSessionProcess(sessionId))
+    );
     await Promise.all(
       Array.from(this.processes.values()).map(p => p.stop())
     );
@@ -0,0 +1,79 @@
+import si from 'systeminformation';
+
+export interface ResourceUsage {
+  // Percent of CPU time, as reported by the OS process table
+  cpu: number;
+  // Resident set size in bytes
+  memory: number;
+}
+
+const MEMORY_UNITS: Record<string, number> = {
+  B: 1,
+  K: 1024,
+  KB: 1024,
+  M: 1024 ** 2,
+  MB: 1024 ** 2,
+  G: 1024 ** 3,
+  GB: 1024 ** 3,
+};
+
+/**
+ * Parses limits such as `512MB`, `1.5G` or a plain byte count. Returns
+ * undefined for values that cannot be read.
+ */
+export function parseMemoryLimit(value: string): number | undefined {
+  const match = value.trim().toUpperCase().match(/^(\d+(?:\.\d+)?)\s*([KMG]?B?)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  return Math.floor(parseFloat(match[1]) * MEMORY_UNITS[match[2] || 'B']);
+}
+
+export function formatBytes(bytes: number): string {
+  return `${(bytes / 1024 ** 2).toFixed(1)}MB`;
+}
+
+/**
+ * Samples each PID together with every process it spawned, so servers run
+ * through wrappers such as `npx` or `uvx` are measured by what they actually
+ * use. CPU is measured since the previous call.
+ */
+export async function sampleProcessTrees(pids: number[]): Promise<Map<number, ResourceUsage>> {
+  const { list } = await si.processes();
+
+  const byPid = new Map(list.map(proc => [proc.pid, proc]));
+  const children = new Map<number, number[]>();
+  for (const proc of list) {
+    if (!children.has(proc.parentPid)) {
+      children.set(proc.parentPid, []);
+    }
+    children.get(proc.parentPid)!.push(proc.pid);
+  }
+
+  const usage = new Map<number, ResourceUsage>();
+  for (const root of pids) {
+    if (!byPid.has(root)) continue;
+
+    const total: ResourceUsage = { cpu: 0, memory: 0 };
+    const queue = [root];
+    const seen = new Set<number>();
+
+    while (queue.length > 0) {
+      const pid = queue.shift()!;
+      if (seen.has(pid)) continue;
+      seen.add(pid);
+
+      const proc = byPid.get(pid);
+      if (proc) {
+        total.cpu += proc.cpu;
+        total.memory += proc.memRss * 1024;
+      }
+      queue.push(...(children.get(pid) ?? []));
+    }
+
+    usage.set(root, total);
+  }
+
+  return usage;
+}
@@ -0,0 +1,234 @@
+import { EventEmitter } from 'events';
+import { and, desc, eq, gte, inArray, lt, lte, sql, SQL } from 'drizzle-orm';
+import { db } from './db/index';
+import { logs } from './db/schema';
+import { logger } from './logger';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+export interface ServiceLogEntry {
+  level: LogLevel;
+  message: string;
+  // Where the line came from: the server's own output, its MCP logging
+  // notifications, or the gateway starting, stopping and restarting it
+  source: 'stderr' | 'stdout' | 'notification' | 'lifecycle';
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * A stored log line as the API returns it. Lines delivered live have no id
+ * until they are written.
+ */
+export interface ServiceLogRecord {
+  id?: number;
+  serviceId: string;
+  timestamp: string;
+  level: string;
+  message: string;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface ServiceLogFilter {
+  levels?: LogLevel[];
+  from?: Date;
+  to?: Date;
+  // Text the message must contain, ignoring case
+  search?: string;
+}
+
+/**
+ * Emits `log` with each ServiceLogRecord as it is recorded, for live tails.
+ */
+export const serviceLogEvents = new EventEmitter();
+serviceLogEvents.setMaxListeners(0);
+
+const LEVEL_NAMES: Record<string, LogLevel> = {
+  emergency: 'error',
+  alert: 'error',
+  fatal: 'error',
+  critical: 'error',
+  error: 'error',
+  warning: 'warn',
+  warn: 'warn',
+  notice: 'info',
+  info: 'info',
+  debug: 'debug',
+  trace: 'debug',
+};
+
+// Numeric levels used by pino and bunyan
+const NUMERIC_LEVELS: [number, LogLevel][] = [
+  [50, 'error'],
+  [40, 'warn'],
+  [30, 'info'],
+  [0, 'debug'],
+];
+
+// Upper-case level names as most formatters print them, `level=...` pairs
+// and bracketed names such as `[warn]`
+const LEVEL_PATTERN = /\b(FATAL|CRITICAL|ERROR|WARNING|WARN|NOTICE|INFO|DEBUG|TRACE)\b|\blevel[=:]\s*"?(\w+)|\[(\w+)\]/g;
+
+// Python tracebacks and uncaught JavaScript errors
+const ERROR_PATTERN = /^(Traceback \(most recent call last\)|(\w+\.)*\w*Error\b|\s+at .+:\d+:\d+\)?$)/;
+
+const MAX_MESSAGE_LENGTH = 8192;
+const FLUSH_INTERVAL = 1000;
+const MAX_BATCH_SIZE = 500;
+const RETENTION_INTERVAL = 60 * 60 * 1000;
+
+export function logLevelFromName(name: string): LogLevel | undefined {
+  return LEVEL_NAMES[name.toLowerCase()];
+}
+
+/**
+ * Reads the level a server gave a line of its output, from a JSON log record
+ * or the usual text formats. Lines without one get `fallback`.
+ */
+export function parseLogLevel(line: string, fallback: LogLevel = 'info'): LogLevel {
+  const trimmed = line.trim();
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const record = JSON.parse(trimmed);
+      const level = record.level ?? record.severity ?? record.levelname ?? record.lvl;
+      if (typeof level === 'number') {
+        return NUMERIC_LEVELS.find(([threshold]) => level >= threshold)![1];
+      }
+      if (typeof level === 'string' && LEVEL_NAMES[level.toLowerCase()]) {
+        return LEVEL_NAMES[level.toLowerCase()];
+      }
+    } catch {
+      // Not JSON after all
+    }
+  }
+
+  for (const match of trimmed.matchAll(LEVEL_PATTERN)) {
+    const level = LEVEL_NAMES[(match[1] ?? match[2] ?? match[3]).toLowerCase()];
+    if (level) {
+      return level;
+    }
+  }
+
+  return ERROR_PATTERN.test(line) ? 'error' : fallback;
+}
+
+const pending: (typeof logs.$inferInsert)[] = [];
+let flushTimeout: NodeJS.Timeout | undefined;
+
+/**
+ * Queues a log line of a service. Lines are written in batches, so a chatty
+ * server costs one insert per second rather than one per line.
+ */
+export function recordServiceLog(serviceId: string, entry: ServiceLogEntry): void {
+  const record: ServiceLogRecord = {
+    serviceId,
+    timestamp: new Date().toISOString(),
+    level: entry.level,
+    message: entry.message.length > MAX_MESSAGE_LENGTH
+      ? `${entry.message.slice(0, MAX_MESSAGE_LENGTH)}…`
+      : entry.message,
+    metadata: { source: entry.source, ...entry.metadata },
+  };
+
+  pending.push({ ...record, metadata: JSON.stringify(record.metadata) });
+  serviceLogEvents.emit('log', record);
+
+  if (pending.length >= MAX_BATCH_SIZE) {
+    flushServiceLogs();
+  } else if (!flushTimeout) {
+    flushTimeout = setTimeout(flushServiceLogs, FLUSH_INTERVAL);
+  }
+}
+
+export async function flushServiceLogs(): Promise<void> {
+  clearTimeout(flushTimeout);
+  flushTimeout = undefined;
+
+  const batch = pending.splice(0);
+  if (batch.length === 0) {
+    return;
+  }
+
+  try {
+    await db.insert(logs).values(batch);
+  } catch (error) {
+    logger.error(`Failed to write ${batch.length} service log lines:`, error);
+  }
+}
+
+/**
+ * The most recent `limit` lines of a service that pass `filter`, oldest
+ * first. Lines still waiting to be written are included.
+ */
+export async function queryServiceLogs(
+  serviceId: string,
+  filter: ServiceLogFilter,
+  limit: number,
+): Promise<ServiceLogRecord[]> {
+  await flushServiceLogs();
+
+  const conditions: SQL[] = [eq(logs.serviceId, serviceId)];
+  if (filter.levels) {
+    conditions.push(inArray(logs.level, filter.levels));
+  }
+  if (filter.from) {
+    conditions.push(gte(logs.timestamp, filter.from.toISOString()));
+  }
+  if (filter.to) {
+    conditions.push(lte(logs.timestamp, filter.to.toISOString()));
+  }
+  if (filter.search) {
+    conditions.push(sql`instr(lower(${logs.message}), ${filter.search.toLowerCase()}) > 0`);
+  }
+
+  const rows = await db.select()
+    .from(logs)
+    .where(and(...conditions))
+    .orderBy(desc(logs.timestamp), desc(logs.id))
+    .limit(limit);
+
+  return rows.reverse().map(row => ({
+    id: row.id,
+    serviceId: row.serviceId,
+    timestamp: row.timestamp ?? '',
+    level: row.level,
+    message: row.message,
+    metadata: row.metadata ? JSON.parse(row.metadata) : null,
+  }));
+}
+
+export function matchesLogFilter(record: ServiceLogRecord, filter: ServiceLogFilter): boolean {
+  if (filter.levels && !filter.levels.includes(record.level as LogLevel)) {
+    return false;
+  }
+  if (filter.from && record.timestamp < filter.from.toISOString()) {
+    return false;
+  }
+  if (filter.to && record.timestamp > filter.to.toISOString()) {
+    return false;
+  }
+  return !filter.search || record.message.toLowerCase().includes(filter.search.toLowerCase());
+}
+
+export async function purgeServiceLogs(retentionDays: number): Promise<void> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+
+  try {
+    await db.delete(logs).where(lt(logs.timestamp, cutoff.toISOString()));
+  } catch (error) {
+    logger.error('Failed to purge service logs:', error);
+  }
+}
+
+/**
+ * Deletes log lines older than `retentionDays` now and every hour after.
+ */
+export function startLogRetention(retentionDays: number): NodeJS.Timeout {
+  purgeServiceLogs(retentionDays);
+
+  const interval = setInterval(() => purgeServiceLogs(retentionDays), RETENTION_INTERVAL);
+  interval.unref();
+  return interval;
+}
@@ -0,0 +1,176 @@
+import { and, eq, gte, lt, lte, sql } from 'drizzle-orm';
+import { db } from './db/index';
+import { metrics } from './db/schema';
+import { logger } from './logger';
+import type { ProcessManager } from './process-manager';
+import { getServiceUsage, takeRequestWindow } from './telemetry';
+
+/**
+ * One point of a service's metric series, covering `step` seconds from
+ * `timestamp`.
+ */
+export interface ServiceMetricPoint {
+  timestamp: string;
+  // Average over the step, summed over the service's processes
+  cpuUsage: number | null;
+  memoryUsage: number | null;
+  requestCount: number;
+  errorCount: number;
+  // Milliseconds, averaged over the requests of the step
+  avgResponseTime: number | null;
+}
+
+export interface ServiceMetricQuery {
+  from: Date;
+  to: Date;
+  // Seconds per point; chosen from the range when left out
+  step?: number;
+}
+
+// Samples older than this are merged into one row per service and hour
+const ROLLUP_AGE = 24 * 60 * 60 * 1000;
+const ROLLUP_PERIOD = 3600;
+const ROLLUP_INTERVAL = 60 * 60 * 1000;
+const MAX_POINTS = 300;
+
+/**
+ * Stores a sample of every service that is running or was sent requests
+ * since the last one. `period` is the collection interval in seconds.
+ */
+export async function collectServiceMetrics(processManager: ProcessManager, period: number): Promise<void> {
+  const timestamp = new Date().toISOString();
+  const samples: (typeof metrics.$inferInsert)[] = [];
+
+  for (const mcpProcess of processManager.getAllProcesses()) {
+    const serviceId = mcpProcess.config.id;
+    const usage = getServiceUsage(processManager, serviceId);
+    const window = takeRequestWindow(serviceId);
+
+    if (usage.instances === 0 && window.requests === 0) {
+      continue;
+    }
+
+    samples.push({
+      serviceId,
+      timestamp,
+      cpuUsage: usage.instances > 0 ? usage.cpuUsage : null,
+      memoryUsage: usage.instances > 0 ? usage.memoryUsage : null,
+      requestCount: window.requests,
+      errorCount: window.errors,
+      avgResponseTime: window.requests > 0 ? (window.seconds / window.requests) * 1000 : null,
+      period,
+    });
+  }
+
+  if (samples.length === 0) {
+    return;
+  }
+
+  try {
+    await db.insert(metrics).values(samples);
+  } catch (error) {
+    logger.error(`Failed to write ${samples.length} metric samples:`, error);
+  }
+}
+
+/**
+ * Replaces samples older than a day with hourly averages and totals, and
+ * deletes everything older than `retentionDays`.
+ */
+export function rollUpServiceMetrics(retentionDays: number): void {
+  const cutoff = new Date(Date.now() - ROLLUP_AGE);
+  // Whole hours only, so no hour is rolled up twice
+  cutoff.setUTCMinutes(0, 0, 0);
+  const expiry = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const hour = sql<string>`substr(${metrics.timestamp}, 1, 13) || ':00:00.000Z'`;
+  const rawBefore = and(lt(metrics.timestamp, cutoff.toISOString()), lt(metrics.period, ROLLUP_PERIOD));
+
+  try {
+    db.transaction((tx) => {
+      const hours = tx.select({
+        serviceId: metrics.serviceId,
+        timestamp: hour,
+        cpuUsage: sql<number | null>`avg(${metrics.cpuUsage})`,
+        memoryUsage: sql<number | null>`avg(${metrics.memoryUsage})`,
+        requestCount: sql<number>`sum(${metrics.requestCount})`,
+        errorCount: sql<number>`sum(${metrics.errorCount})`,
+        avgResponseTime: sql<number | null>`sum(${metrics.avgResponseTime} * ${metrics.requestCount}) / nullif(sum(${metrics.requestCount}), 0)`,
+      })
+        .from(metrics)
+        .where(rawBefore)
+        .groupBy(metrics.serviceId, hour)
+        .all();
+
+      if (hours.length > 0) {
+        tx.insert(metrics).values(hours.map(row => ({ ...row, period: ROLLUP_PERIOD }))).run();
+      }
+      tx.delete(metrics).where(rawBefore).run();
+      tx.delete(metrics).where(lt(metrics.timestamp, expiry.toISOString())).run();
+    });
+  } catch (error) {
+    logger.error('Failed to roll up service metrics:', error);
+  }
+}
+
+/**
+ * Samples every `interval` milliseconds, rolling up and purging old samples
+ * now and every hour after.
+ */
+export function startMetricsCollector(
+  processManager: ProcessManager,
+  interval: number,
+  retentionDays: number,
+): NodeJS.Timeout {
+  let lastRollup = Date.now();
+  rollUpServiceMetrics(retentionDays);
+
+  const timer = setInterval(async () => {
+    await collectServiceMetrics(processManager, Math.round(interval / 1000));
+
+    if (Date.now() - lastRollup >= ROLLUP_INTERVAL) {
+      lastRollup = Date.now();
+      rollUpServiceMetrics(retentionDays);
+    }
+  }, interval);
+  timer.unref();
+  return timer;
+}
+
+/**
+ * The samples of a service between `from` and `to`, merged into points of
+ * `step` seconds, oldest first. Steps without samples are left out.
+ */
+export async function queryServiceMetrics(
+  serviceId: string,
+  query: ServiceMetricQuery,
+): Promise<{ step: number; points: ServiceMetricPoint[] }> {
+  const range = (query.to.getTime() - query.from.getTime()) / 1000;
+  const step = query.step ?? Math.max(60, Math.ceil(range / MAX_POINTS / 60) * 60);
+  const stepSql = sql.raw(String(Math.floor(step)));
+  const bucket = sql<number>`(cast(strftime('%s', ${metrics.timestamp}) as integer) / ${stepSql}) * ${stepSql}`;
+
+  const rows = await db.select({
+    bucket,
+    cpuUsage: sql<number | null>`avg(${metrics.cpuUsage})`,
+    memoryUsage: sql<number | null>`avg(${metrics.memoryUsage})`,
+    requestCount: sql<number>`coalesce(sum(${metrics.requestCount}), 0)`,
+    errorCount: sql<number>`coalesce(sum(${metrics.errorCount}), 0)`,
+    avgResponseTime: sql<number | null>`sum(${metrics.avgResponseTime} * ${metrics.requestCount}) / nullif(sum(${metrics.requestCount}), 0)`,
+  })
+    .from(metrics)
+    .where(and(
+      eq(metrics.serviceId, serviceId),
+      gte(metrics.timestamp, query.from.toISOString()),
+      lte(metrics.timestamp, query.to.toISOString()),
+    ))
+    .groupBy(bucket)
+    .orderBy(bucket);
+
+  return {
+    step,
+    points: rows.map(({ bucket, ...values }) => ({
+      timestamp: new Date(bucket * 1000).toISOString(),
+      ...values,
+    })),
+  };
+}
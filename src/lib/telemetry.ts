@@ -0,0 +1,210 @@
+import type { ProcessManager } from './process-manager';
+
+type Labels = Record<string, string>;
+
+// Request latency buckets in seconds
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Methods are labelled by name only when the spec defines them, so clients
+// cannot create unbounded series with made-up methods
+const KNOWN_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'tools/call',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'resources/subscribe',
+  'resources/unsubscribe',
+  'prompts/list',
+  'prompts/get',
+  'completion/complete',
+  'logging/setLevel',
+]);
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatSample(name: string, labels: Labels, value: number): string {
+  return `${name}${formatLabels(labels)} ${Number.isFinite(value) ? value : 0}`;
+}
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels, amount = 1): void {
+    const key = JSON.stringify(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values.values()).map(({ labels, value }) => formatSample(this.name, labels, value)),
+    ];
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private bounds: number[]) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = JSON.stringify(labels);
+    const entry = this.values.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry.buckets[index]++;
+      }
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bounds.forEach((bound, index) => {
+        lines.push(formatSample(`${this.name}_bucket`, { ...labels, le: String(bound) }, buckets[index]));
+      });
+      lines.push(formatSample(`${this.name}_bucket`, { ...labels, le: '+Inf' }, count));
+      lines.push(formatSample(`${this.name}_sum`, labels, sum));
+      lines.push(formatSample(`${this.name}_count`, labels, count));
+    }
+
+    return lines;
+  }
+}
+
+function renderGauge(name: string, help: string, samples: [Labels, number][]): string[] {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} gauge`,
+    ...samples.map(([labels, value]) => formatSample(name, labels, value)),
+  ];
+}
+
+const requests = new Counter('mcp_requests_total', 'JSON-RPC requests handled, by service, method and outcome');
+const requestDuration = new Histogram(
+  'mcp_request_duration_seconds',
+  'Time to answer JSON-RPC requests, by service and method',
+  LATENCY_BUCKETS,
+);
+const restarts = new Counter('mcp_process_restarts_total', 'Restarts of service processes after a crash or limit');
+const cacheLookups = new Counter('mcp_cache_requests_total', 'Response cache lookups, by service and result');
+const rateLimited = new Counter('mcp_rate_limited_requests_total', 'Requests rejected by the rate limiter');
+
+export interface RequestWindow {
+  requests: number;
+  errors: number;
+  // Total time taken to answer them
+  seconds: number;
+}
+
+// Requests per service since the metrics collector last took them
+const requestWindows = new Map<string, RequestWindow>();
+
+export function recordRequest(serviceId: string, method: string, error: boolean, seconds: number): void {
+  const labels = { service: serviceId, method: KNOWN_METHODS.has(method) ? method : 'other' };
+  requests.inc({ ...labels, outcome: error ? 'error' : 'success' });
+  requestDuration.observe(labels, seconds);
+
+  const window = requestWindows.get(serviceId) ?? { requests: 0, errors: 0, seconds: 0 };
+  window.requests++;
+  window.errors += error ? 1 : 0;
+  window.seconds += seconds;
+  requestWindows.set(serviceId, window);
+}
+
+/**
+ * The requests of a service since the last call, for the stored samples of
+ * the metrics collector.
+ */
+export function takeRequestWindow(serviceId: string): RequestWindow {
+  const window = requestWindows.get(serviceId) ?? { requests: 0, errors: 0, seconds: 0 };
+  requestWindows.delete(serviceId);
+  return window;
+}
+
+export function recordRestart(serviceId: string): void {
+  restarts.inc({ service: serviceId });
+}
+
+export function recordCacheLookup(serviceId: string, hit: boolean): void {
+  cacheLookups.inc({ service: serviceId, result: hit ? 'hit' : 'miss' });
+}
+
+export function recordRateLimited(serviceId: string): void {
+  rateLimited.inc({ service: serviceId });
+}
+
+/**
+ * Running processes of a service and their memory and CPU use, summed over
+ * replicas and session processes, children included.
+ */
+export function getServiceUsage(
+  processManager: ProcessManager,
+  serviceId: string,
+): { instances: number; memoryUsage: number; cpuUsage: number } {
+  const members = [...processManager.getReplicas(serviceId), ...processManager.getSessionProcesses(serviceId)];
+  const running = members.map(member => member.getMetrics()).filter(metrics => metrics !== null);
+
+  return {
+    instances: running.length,
+    memoryUsage: running.reduce((total, metrics) => total + metrics.memoryUsage, 0),
+    cpuUsage: running.reduce((total, metrics) => total + metrics.cpuUsage, 0),
+  };
+}
+
+/**
+ * Everything above plus the current state of each service's processes, in
+ * the Prometheus text exposition format.
+ */
+export function renderMetrics(processManager: ProcessManager): string {
+  const up: [Labels, number][] = [];
+  const uptime: [Labels, number][] = [];
+  const instances: [Labels, number][] = [];
+  const memory: [Labels, number][] = [];
+  const cpu: [Labels, number][] = [];
+
+  for (const mcpProcess of processManager.getAllProcesses()) {
+    const serviceId = mcpProcess.config.id;
+    const labels = { service: serviceId };
+    const usage = getServiceUsage(processManager, serviceId);
+
+    up.push([labels, mcpProcess.getState().status === 'running' ? 1 : 0]);
+    uptime.push([labels, (mcpProcess.getMetrics()?.uptime ?? 0) / 1000]);
+    instances.push([labels, usage.instances]);
+    memory.push([labels, usage.memoryUsage]);
+    cpu.push([labels, usage.cpuUsage]);
+  }
+
+  return [
+    ...requests.render(),
+    ...requestDuration.render(),
+    ...restarts.render(),
+    ...cacheLookups.render(),
+    ...rateLimited.render(),
+    ...renderGauge('mcp_service_up', 'Whether the service is running', up),
+    ...renderGauge('mcp_service_uptime_seconds', 'Time since the service process started', uptime),
+    ...renderGauge('mcp_service_instances', 'Running processes of the service', instances),
+    ...renderGauge('mcp_service_memory_rss_bytes', 'Resident memory of all processes of the service', memory),
+    ...renderGauge('mcp_service_cpu_percent', 'CPU use of all processes of the service', cpu),
+  ].join('\n') + '\n';
+}
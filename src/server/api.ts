@@ -1,17 +1,102 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { HTTPException } from 'hono/http-exception';
+import { streamSSE } from 'hono/streaming';
 import { z } from 'zod';
 import { ProcessManager, MCPConfigSchema } from '../lib/process-manager';
 import { db } from '../lib/db/index';
-import { services, logs, metrics } from '../lib/db/schema';
+import { services, logs, metrics, apiKeys } from '../lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { logger } from '../lib/logger';
 import { GitHubService } from '../lib/github';
 import { authMiddleware } from './middleware/auth';
+import { configManager } from '../lib/config-manager';
+import { getGatewayMembership } from '../lib/mcp/gateway';
+import { LOGGING_LEVELS } from '../lib/mcp/protocol';
+import {
+  LOG_LEVELS,
+  LogLevel,
+  ServiceLogFilter,
+  ServiceLogRecord,
+  matchesLogFilter,
+  queryServiceLogs,
+  serviceLogEvents,
+} from '../lib/service-logs';
+import { queryServiceMetrics } from '../lib/service-metrics';
+import { KEEPALIVE_INTERVAL } from './transports/utils';
 
 const CreateServiceSchema = MCPConfigSchema.omit({ id: true });
-const UpdateServiceSchema = MCPConfigSchema.partial();
+// Every field optional and without its default, so an update only changes
+// what the request names
+const UpdateServiceSchema = MCPConfigSchema.deepPartial().extend({
+  runtime: MCPConfigSchema.shape.runtime.removeDefault().deepPartial().optional(),
+  remote: MCPConfigSchema.shape.remote.unwrap().deepPartial().extend({
+    // null or an empty string removes the stored token
+    bearerToken: z.string().nullable().optional(),
+  }).optional(),
+});
+const LogLevelSchema = z.object({
+  level: z.enum(LOGGING_LEVELS),
+});
+const MetricsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Seconds per point
+  step: z.coerce.number().int().positive().optional(),
+});
+const GatewayMembershipSchema = z.object({
+  // null lets the key reach every service
+  services: z.array(z.string()).nullable(),
+});
+
+const DEFAULT_METRICS_RANGE = 60 * 60 * 1000;
+
+/**
+ * A service row as the API returns it. Remote credentials never leave the
+ * server: only whether a bearer token is set and the names of extra headers.
+ */
+function toServiceResponse(service: typeof services.$inferSelect) {
+  const { remoteHeaders, remoteBearerToken, ...rest } = service;
+
+  return {
+    ...rest,
+    args: JSON.parse(service.args || '[]'),
+    environment: JSON.parse(service.environment || '{}'),
+    remoteHeaderNames: Object.keys(JSON.parse(configManager.decryptStored(remoteHeaders || '{}'))),
+    hasBearerToken: !!(remoteBearerToken && configManager.decryptStored(remoteBearerToken)),
+  };
+}
+
+/**
+ * Reads the `level`, `from`, `to` and `search` filters of the log routes.
+ */
+function parseLogFilter(query: Record<string, string>): ServiceLogFilter {
+  const filter: ServiceLogFilter = {};
+
+  if (query.level) {
+    const levels = query.level.split(',');
+    if (!levels.every(level => LOG_LEVELS.includes(level as LogLevel))) {
+      throw new HTTPException(400, { message: `level must be one of ${LOG_LEVELS.join(', ')}` });
+    }
+    filter.levels = levels as LogLevel[];
+  }
+
+  for (const bound of ['from', 'to'] as const) {
+    if (!query[bound]) continue;
+
+    const date = new Date(query[bound]);
+    if (isNaN(date.getTime())) {
+      throw new HTTPException(400, { message: `${bound} must be a date` });
+    }
+    filter[bound] = date;
+  }
+
+  if (query.search) {
+    filter.search = query.search;
+  }
+
+  return filter;
+}
 
 export function createManagementAPI(
   processManager: ProcessManager,
@@ -32,8 +117,7 @@ export function createManagementAPI(
         const metrics = process?.getMetrics();
         
         return {
-          ...service,
-          environment: JSON.parse(service.environment || '{}'),
+          ...toServiceResponse(service),
           status: state?.status || 'stopped',
           metrics,
         };
@@ -61,10 +145,17 @@ export function createManagementAPI(
       const metrics = process?.getMetrics();
       
       return c.json({
-        ...service,
-        environment: JSON.parse(service.environment || '{}'),
+        ...toServiceResponse(service),
         status: state?.status || 'stopped',
         metrics,
+        logLevel: process?.getLogLevel(),
+        sessions: processManager.getSessionProcesses(id).map(sessionProcess => sessionProcess.getMetrics()),
+        replicas: processManager.getReplicas(id).map((replica, index) => ({
+          index,
+          ...replica.getState(),
+          pendingRequests: replica.getPendingRequestCount(),
+          metrics: replica.getMetrics(),
+        })),
       });
     } catch (error) {
       if (error instanceof HTTPException) throw error;
@@ -84,23 +175,50 @@ export function createManagementAPI(
         ...validated,
         id,
       };
+
+      if (config.type === 'remote' && !config.remote) {
+        throw new HTTPException(400, { message: 'Remote services require a remote URL' });
+      }
       
       await db.insert(services).values({
         id,
         name: config.name,
+        type: config.type,
         repositoryUrl: config.repository.url,
         repositoryBranch: config.repository.branch,
         repositoryPath: config.repository.path,
         entryPoint: config.repository.entryPoint,
+        command: config.runtime.command,
+        args: JSON.stringify(config.runtime.args),
+        workingDirectory: config.runtime.workingDirectory,
         environment: JSON.stringify(config.environment),
+        remoteUrl: config.remote?.url,
+        remoteTransport: config.remote?.transport,
+        remoteHeaders: configManager.encrypt(JSON.stringify(config.remote?.headers ?? {})),
+        remoteBearerToken: config.remote?.bearerToken ? configManager.encrypt(config.remote.bearerToken) : null,
         proxyPath: config.proxy.path,
         rateLimit: config.proxy.rateLimit,
         cacheTTL: config.proxy.cacheTTL,
         timeout: config.proxy.timeout,
         autoRestart: config.process.autoRestart,
+        restartPolicy: config.process.restartPolicy,
         maxRestarts: config.process.maxRestarts,
+        restartBackoff: config.process.restartBackoff,
+        restartBackoffMax: config.process.restartBackoffMax,
+        stableUptime: config.process.stableUptime,
         maxMemory: config.process.maxMemory,
+        memoryPolicy: config.process.memoryPolicy,
         healthCheckInterval: config.process.healthCheckInterval,
+        healthCheckMethod: config.process.healthCheckMethod,
+        healthCheckThreshold: config.process.healthCheckThreshold,
+        processMode: config.process.mode,
+        maxSessions: config.process.maxSessions,
+        sessionIdleTimeout: config.process.sessionIdleTimeout,
+        replicas: config.process.replicas,
+        sessionAffinity: config.process.sessionAffinity,
+        idleTimeout: config.process.idleTimeout,
+        coldStartTimeout: config.process.coldStartTimeout,
+        desiredState: body.autoStart ? 'running' : 'stopped',
       });
       
       const process = await processManager.addProcess(config);
@@ -111,6 +229,7 @@ export function createManagementAPI(
       
       return c.json({ id, message: 'Service created successfully' }, 201);
     } catch (error) {
+      if (error instanceof HTTPException) throw error;
       if (error instanceof z.ZodError) {
         throw new HTTPException(400, { 
           message: 'Validation error',
@@ -142,15 +261,39 @@ export function createManagementAPI(
       if (validated.repository?.branch !== undefined) updates.repositoryBranch = validated.repository.branch;
       if (validated.repository?.path !== undefined) updates.repositoryPath = validated.repository.path;
       if (validated.repository?.entryPoint !== undefined) updates.entryPoint = validated.repository.entryPoint;
+      if (validated.runtime?.command !== undefined) updates.command = validated.runtime.command;
+      if (validated.runtime?.args !== undefined) updates.args = JSON.stringify(validated.runtime.args);
+      if (validated.runtime?.workingDirectory !== undefined) updates.workingDirectory = validated.runtime.workingDirectory;
       if (validated.environment !== undefined) updates.environment = JSON.stringify(validated.environment);
+      if (validated.type !== undefined) updates.type = validated.type;
+      if (validated.remote?.url !== undefined) updates.remoteUrl = validated.remote.url;
+      if (validated.remote?.transport !== undefined) updates.remoteTransport = validated.remote.transport;
+      if (validated.remote?.headers !== undefined) updates.remoteHeaders = configManager.encrypt(JSON.stringify(validated.remote.headers));
+      if (validated.remote?.bearerToken !== undefined) {
+        updates.remoteBearerToken = validated.remote.bearerToken ? configManager.encrypt(validated.remote.bearerToken) : null;
+      }
       if (validated.proxy?.path !== undefined) updates.proxyPath = validated.proxy.path;
       if (validated.proxy?.rateLimit !== undefined) updates.rateLimit = validated.proxy.rateLimit;
       if (validated.proxy?.cacheTTL !== undefined) updates.cacheTTL = validated.proxy.cacheTTL;
       if (validated.proxy?.timeout !== undefined) updates.timeout = validated.proxy.timeout;
       if (validated.process?.autoRestart !== undefined) updates.autoRestart = validated.process.autoRestart;
+      if (validated.process?.restartPolicy !== undefined) updates.restartPolicy = validated.process.restartPolicy;
       if (validated.process?.maxRestarts !== undefined) updates.maxRestarts = validated.process.maxRestarts;
+      if (validated.process?.restartBackoff !== undefined) updates.restartBackoff = validated.process.restartBackoff;
+      if (validated.process?.restartBackoffMax !== undefined) updates.restartBackoffMax = validated.process.restartBackoffMax;
+      if (validated.process?.stableUptime !== undefined) updates.stableUptime = validated.process.stableUptime;
       if (validated.process?.maxMemory !== undefined) updates.maxMemory = validated.process.maxMemory;
+      if (validated.process?.memoryPolicy !== undefined) updates.memoryPolicy = validated.process.memoryPolicy;
       if (validated.process?.healthCheckInterval !== undefined) updates.healthCheckInterval = validated.process.healthCheckInterval;
+      if (validated.process?.healthCheckMethod !== undefined) updates.healthCheckMethod = validated.process.healthCheckMethod;
+      if (validated.process?.healthCheckThreshold !== undefined) updates.healthCheckThreshold = validated.process.healthCheckThreshold;
+      if (validated.process?.mode !== undefined) updates.processMode = validated.process.mode;
+      if (validated.process?.maxSessions !== undefined) updates.maxSessions = validated.process.maxSessions;
+      if (validated.process?.sessionIdleTimeout !== undefined) updates.sessionIdleTimeout = validated.process.sessionIdleTimeout;
+      if (validated.process?.replicas !== undefined) updates.replicas = validated.process.replicas;
+      if (validated.process?.sessionAffinity !== undefined) updates.sessionAffinity = validated.process.sessionAffinity;
+      if (validated.process?.idleTimeout !== undefined) updates.idleTimeout = validated.process.idleTimeout;
+      if (validated.process?.coldStartTimeout !== undefined) updates.coldStartTimeout = validated.process.coldStartTimeout;
       
       updates.updatedAt = new Date().toISOString();
       
@@ -186,6 +329,8 @@ export function createManagementAPI(
       }
       
       await processManager.removeProcess(id);
+      await db.delete(logs).where(eq(logs.serviceId, id));
+      await db.delete(metrics).where(eq(metrics.serviceId, id));
       await db.delete(services).where(eq(services.id, id));
       
       return c.json({ message: 'Service deleted successfully' });
@@ -206,12 +351,12 @@ export function createManagementAPI(
         throw new HTTPException(404, { message: 'Service not found' });
       }
       
-      await process.start();
-      
       await db.update(services)
-        .set({ status: 'running' })
+        .set({ desiredState: 'running' })
         .where(eq(services.id, id));
       
+      await process.start();
+      
       return c.json({ message: 'Service started successfully' });
     } catch (error) {
       if (error instanceof HTTPException) throw error;
@@ -230,12 +375,12 @@ export function createManagementAPI(
         throw new HTTPException(404, { message: 'Service not found' });
       }
       
-      await process.stop();
-      
       await db.update(services)
-        .set({ status: 'stopped' })
+        .set({ desiredState: 'stopped' })
         .where(eq(services.id, id));
       
+      await process.stop();
+      
       return c.json({ message: 'Service stopped successfully' });
     } catch (error) {
       if (error instanceof HTTPException) throw error;
@@ -244,6 +389,40 @@ export function createManagementAPI(
     }
   });
 
+  // Changes what the server sends as `notifications/message` without a
+  // restart
+  app.put('/services/:id/log-level', async (c) => {
+    const id = c.req.param('id');
+    
+    try {
+      const { level } = LogLevelSchema.parse(await c.req.json());
+      const process = processManager.getProcess(id);
+      
+      if (!process) {
+        throw new HTTPException(404, { message: 'Service not found' });
+      }
+
+      const serverInfo = process.getServerInfo();
+      if (serverInfo && !serverInfo.capabilities?.logging) {
+        throw new HTTPException(400, { message: 'Service does not support the logging capability' });
+      }
+      
+      await processManager.setLogLevel(id, level);
+      
+      return c.json({ message: `Log level set to ${level}` });
+    } catch (error) {
+      if (error instanceof HTTPException) throw error;
+      if (error instanceof z.ZodError) {
+        throw new HTTPException(400, {
+          message: 'Validation error',
+          cause: error.errors,
+        });
+      }
+      logger.error(`Failed to set log level of service ${id}:`, error);
+      throw new HTTPException(500, { message: 'Failed to set log level' });
+    }
+  });
+
   app.post('/services/:id/restart', async (c) => {
     const id = c.req.param('id');
     
@@ -254,6 +433,10 @@ export function createManagementAPI(
         throw new HTTPException(404, { message: 'Service not found' });
       }
       
+      await db.update(services)
+        .set({ desiredState: 'running' })
+        .where(eq(services.id, id));
+      
       await process.restart();
       
       return c.json({ message: 'Service restarted successfully' });
@@ -269,24 +452,181 @@ export function createManagementAPI(
     const limit = parseInt(c.req.query('limit') || '100');
     
     try {
-      const serviceLogs = await db.select()
-        .from(logs)
-        .where(eq(logs.serviceId, id))
-        .orderBy(logs.timestamp)
-        .limit(limit);
-      
-      return c.json(serviceLogs.map(log => ({
-        ...log,
-        metadata: log.metadata ? JSON.parse(log.metadata) : null,
-      })));
+      const filter = parseLogFilter(c.req.query());
+      return c.json(await queryServiceLogs(id, filter, limit));
+    } catch (error) {
+      if (error instanceof HTTPException) throw error;
+      logger.error(`Failed to get logs for service ${id}:`, error);
+      throw new HTTPException(500, { message: 'Failed to get logs' });
+    }
+  });
+
+  // Live tail: the last `backfill` lines, then each new line as it is
+  // produced. EventSource cannot set headers, so pass the key as `api_key`
+  app.get('/services/:id/logs/stream', async (c) => {
+    const id = c.req.param('id');
+    const backfill = parseInt(c.req.query('backfill') || '100');
+    const filter = parseLogFilter(c.req.query());
+
+    // Subscribed before the history is read, so lines recorded meanwhile are
+    // held back until it has been sent rather than lost
+    let buffered: ServiceLogRecord[] = [];
+    let send: ((record: ServiceLogRecord) => void) | undefined;
+    const onLog = (record: ServiceLogRecord) => {
+      if (record.serviceId !== id || !matchesLogFilter(record, filter)) {
+        return;
+      }
+      if (send) {
+        send(record);
+      } else {
+        buffered.push(record);
+      }
+    };
+    serviceLogEvents.on('log', onLog);
+
+    let history: ServiceLogRecord[];
+    try {
+      history = backfill > 0 ? await queryServiceLogs(id, filter, backfill) : [];
     } catch (error) {
+      serviceLogEvents.off('log', onLog);
       logger.error(`Failed to get logs for service ${id}:`, error);
       throw new HTTPException(500, { message: 'Failed to get logs' });
     }
+
+    return streamSSE(c, async (stream) => {
+      let writing = Promise.resolve();
+      const write = (record: ServiceLogRecord) => {
+        writing = writing
+          .then(() => stream.writeSSE({ event: 'log', data: JSON.stringify(record) }))
+          .catch(() => {});
+      };
+
+      history.forEach(write);
+
+      // Lines recorded before the history was read are already part of it,
+      // or older than its first line when the backfill cut them off
+      const written = new Map<string, number>();
+      for (const record of history) {
+        const key = `${record.timestamp} ${record.level} ${record.message}`;
+        written.set(key, (written.get(key) ?? 0) + 1);
+      }
+      const oldest = history[0]?.timestamp;
+      for (const record of buffered) {
+        const key = `${record.timestamp} ${record.level} ${record.message}`;
+        const count = written.get(key) ?? 0;
+        if (count > 0) {
+          written.set(key, count - 1);
+        } else if (!oldest || record.timestamp >= oldest) {
+          write(record);
+        }
+      }
+      buffered = [];
+      send = write;
+
+      const keepalive = setInterval(() => {
+        stream.write(': keepalive\n\n').catch(() => {});
+      }, KEEPALIVE_INTERVAL);
+
+      await new Promise<void>(resolve => stream.onAbort(resolve));
+
+      clearInterval(keepalive);
+      serviceLogEvents.off('log', onLog);
+    });
+  });
+
+  // Stored samples as series over a time range, the last hour by default
+  app.get('/services/:id/metrics', async (c) => {
+    const id = c.req.param('id');
+
+    try {
+      const query = MetricsQuerySchema.parse(c.req.query());
+      const to = query.to ?? new Date();
+      const from = query.from ?? new Date(to.getTime() - DEFAULT_METRICS_RANGE);
+
+      if (from >= to) {
+        throw new HTTPException(400, { message: 'from must be before to' });
+      }
+
+      const series = await queryServiceMetrics(id, { from, to, step: query.step });
+      return c.json({
+        serviceId: id,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        ...series,
+      });
+    } catch (error) {
+      if (error instanceof HTTPException) throw error;
+      if (error instanceof z.ZodError) {
+        throw new HTTPException(400, {
+          message: 'Validation error',
+          cause: error.errors,
+        });
+      }
+      logger.error(`Failed to get metrics for service ${id}:`, error);
+      throw new HTTPException(500, { message: 'Failed to get metrics' });
+    }
   });
 
-  // Note: WebSocket support for log streaming is handled by createWebSocketProxy
-  // in the main server setup, not via Hono's WebSocket API
+  app.get('/keys/:id/gateway', async (c) => {
+    const id = parseInt(c.req.param('id'));
+
+    try {
+      const [key] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+
+      if (!key) {
+        throw new HTTPException(404, { message: 'API key not found' });
+      }
+
+      return c.json({ services: getGatewayMembership(key.permissions) ?? null });
+    } catch (error) {
+      if (error instanceof HTTPException) throw error;
+      logger.error(`Failed to get gateway membership for API key ${id}:`, error);
+      throw new HTTPException(500, { message: 'Failed to get gateway membership' });
+    }
+  });
+
+  app.put('/keys/:id/gateway', async (c) => {
+    const id = parseInt(c.req.param('id'));
+
+    try {
+      const validated = GatewayMembershipSchema.parse(await c.req.json());
+
+      const [key] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+
+      if (!key) {
+        throw new HTTPException(404, { message: 'API key not found' });
+      }
+
+      let permissions: Record<string, any> = {};
+      try {
+        permissions = JSON.parse(key.permissions || '{}');
+      } catch {
+        logger.warn(`Replacing malformed permissions of API key ${id}`);
+      }
+
+      if (validated.services === null) {
+        delete permissions.gateway;
+      } else {
+        permissions.gateway = { ...permissions.gateway, services: validated.services };
+      }
+
+      await db.update(apiKeys)
+        .set({ permissions: JSON.stringify(permissions) })
+        .where(eq(apiKeys.id, id));
+
+      return c.json({ message: 'Gateway membership updated successfully' });
+    } catch (error) {
+      if (error instanceof HTTPException) throw error;
+      if (error instanceof z.ZodError) {
+        throw new HTTPException(400, {
+          message: 'Validation error',
+          cause: error.errors,
+        });
+      }
+      logger.error(`Failed to update gateway membership for API key ${id}:`, error);
+      throw new HTTPException(500, { message: 'Failed to update gateway membership' });
+    }
+  });
 
   return app;
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { Hono } from 'hono';
+import { ProcessManager } from '../lib/process-manager';
+import { MCPGateway, GatewayContext, getGatewayMembership } from '../lib/mcp/gateway';
+import { DEFAULT_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from '../lib/mcp/protocol';
+import {
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCResponse,
+  createErrorResponse,
+  isRequest,
+} from '../lib/mcp/jsonrpc';
+import { apiKeys } from '../lib/db/schema';
+import { logger } from '../lib/logger';
+import { authMiddleware } from './middleware/auth';
+import { rateLimitMiddleware } from './middleware/rate-limit';
+
+type GatewayEnv = {
+  Variables: {
+    apiKey?: typeof apiKeys.$inferSelect;
+  };
+};
+
+/**
+ * Single MCP endpoint for every service, served over Streamable HTTP without
+ * sessions: each POST is answered with JSON. Every request needs an API key,
+ * whose gateway membership limits which services it exposes.
+ */
+export function createGatewayRouter(processManager: ProcessManager) {
+  const app = new Hono<GatewayEnv>();
+  const gateway = new MCPGateway(processManager);
+
+  const dispatch = async (payload: unknown, context: GatewayContext): Promise<JSONRPCResponse | undefined> => {
+    const validated = JSONRPCMessageSchema.safeParse(payload);
+    if (!validated.success) {
+      return createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request');
+    }
+    const message = validated.data as JSONRPCMessage;
+
+    // Notifications and responses have no single upstream to go to
+    if (!isRequest(message)) {
+      return undefined;
+    }
+
+    try {
+      return await gateway.handleRequest(message, context);
+    } catch (error) {
+      logger.error('Gateway error:', error);
+      return createErrorResponse(
+        message.id,
+        ErrorCode.InternalError,
+        error instanceof Error ? error.message : 'Internal error',
+      );
+    }
+  };
+
+  app.post('/mcp/gateway', authMiddleware(), rateLimitMiddleware(), async (c) => {
+    const protocolVersion = c.req.header('MCP-Protocol-Version') ?? DEFAULT_PROTOCOL_VERSION;
+    if (!SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+      return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, `Unsupported protocol version: ${protocolVersion}`), 400);
+    }
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(createErrorResponse(null, ErrorCode.ParseError, 'Parse error'), 400);
+    }
+
+    const context: GatewayContext = {
+      services: getGatewayMembership(c.get('apiKey')?.permissions),
+      signal: c.req.raw.signal,
+      protocolVersion,
+    };
+
+    if (Array.isArray(body)) {
+      if (body.length === 0) {
+        return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request'), 400);
+      }
+
+      const responses = (await Promise.all(body.map(item => dispatch(item, context))))
+        .filter((response): response is JSONRPCResponse => response !== undefined);
+      return responses.length > 0 ? c.json(responses) : c.body(null, 202);
+    }
+
+    const response = await dispatch(body, context);
+    return response ? c.json(response) : c.body(null, 202);
+  });
+
+  app.on(['GET', 'DELETE'], '/mcp/gateway', (c) => {
+    return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'The gateway does not support sessions'), 405);
+  });
+
+  return app;
+}
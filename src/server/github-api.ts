@@ -1,6 +1,7 @@
 import { Hono } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import crypto from 'crypto';
+import path from 'path';
 import { z } from 'zod';
 import { ProcessManager } from '../lib/process-manager';
 import { GitHubService, DeployRequestSchema } from '../lib/github';
@@ -42,12 +43,18 @@ export function createGitHubAPI(
       const config = {
         id,
         name: validated.serviceName,
+        type: 'local' as const,
         repository: {
           url: validated.repositoryUrl,
           branch: validated.branch,
           path: deployment.path,
           entryPoint: deployment.manifest.entryPoint,
         },
+        runtime: {
+          command: deployment.manifest.command,
+          args: deployment.manifest.args ?? [],
+          workingDirectory: path.resolve(deployment.path),
+        },
         environment: {
           ...deployment.manifest.defaultEnv,
           ...validated.environment,
@@ -60,9 +67,23 @@ export function createGitHubAPI(
         },
         process: {
           autoRestart: true,
+          restartPolicy: 'on-failure' as const,
           maxRestarts: 5,
+          restartBackoff: 1,
+          restartBackoffMax: 30,
+          stableUptime: 300,
           maxMemory: '512MB',
+          memoryPolicy: 'restart' as const,
           healthCheckInterval: 30,
+          healthCheckMethod: 'ping' as const,
+          healthCheckThreshold: 3,
+          mode: 'shared' as const,
+          maxSessions: 10,
+          sessionIdleTimeout: 600,
+          replicas: 1,
+          sessionAffinity: true,
+          idleTimeout: 0,
+          coldStartTimeout: 60,
         },
       };
       
@@ -73,6 +94,9 @@ export function createGitHubAPI(
         repositoryBranch: config.repository.branch,
         repositoryPath: config.repository.path,
         entryPoint: config.repository.entryPoint,
+        command: config.runtime.command,
+        args: JSON.stringify(config.runtime.args),
+        workingDirectory: config.runtime.workingDirectory,
         environment: JSON.stringify(config.environment),
         proxyPath: config.proxy.path,
         rateLimit: config.proxy.rateLimit,
@@ -81,7 +105,9 @@ export function createGitHubAPI(
         autoRestart: config.process.autoRestart,
         maxRestarts: config.process.maxRestarts,
         maxMemory: config.process.maxMemory,
+        memoryPolicy: config.process.memoryPolicy,
         healthCheckInterval: config.process.healthCheckInterval,
+        desiredState: 'running',
       });
       
       const process = await processManager.addProcess(config);
@@ -1,5 +1,6 @@
 import { createMiddleware } from 'hono/factory';
 import crypto from 'crypto';
+import { recordCacheLookup } from '../../lib/telemetry';
 
 interface CacheEntry {
   data: any;
@@ -23,16 +24,29 @@ export function cacheMiddleware(options?: {
 
     const body = await c.req.text();
     const serviceId = c.req.param('serviceId');
-    const cacheKey = `${serviceId}:${crypto.createHash('md5').update(body).digest('hex')}`;
+    // A session may be served by its own process, so its answers are not
+    // shared with other clients
+    const sessionId = c.req.header('mcp-session-id') || '';
+    // Responses are translated to the client's protocol revision
+    const protocolVersion = c.req.header('mcp-protocol-version') || '';
+    const cacheKey = `${serviceId}:${sessionId}:${protocolVersion}:${crypto.createHash('md5').update(body).digest('hex')}`;
     
     const cached = cache.get(cacheKey);
     if (cached && cached.expiry > Date.now()) {
+      recordCacheLookup(serviceId!, true);
       c.header('X-Cache', 'HIT');
       return c.json(cached.data);
     }
+    recordCacheLookup(serviceId!, false);
     
     await next();
     
+    // SSE streams and session-creating responses are specific to one client
+    const contentType = c.res.headers.get('content-type') || '';
+    if (!contentType.includes('application/json') || c.res.headers.has('mcp-session-id')) {
+      return;
+    }
+
     if (c.res.status === 200) {
       const responseData = await c.res.clone().json();
       cache.set(cacheKey, {
@@ -1,5 +1,6 @@
 import { createMiddleware } from 'hono/factory';
 import { HTTPException } from 'hono/http-exception';
+import { recordRateLimited } from '../../lib/telemetry';
 
 interface RateLimitStore {
   [key: string]: {
@@ -34,6 +35,7 @@ export function rateLimitMiddleware(options?: {
     store[key].count++;
     
     if (store[key].count > limit) {
+      recordRateLimited(serviceId ?? 'gateway');
       const retryAfter = Math.ceil((store[key].resetTime - now) / 1000);
       throw new HTTPException(429, {
         message: 'Too many requests',
@@ -1,85 +1,31 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { HTTPException } from 'hono/http-exception';
 import { WebSocketServer } from 'ws';
+import { randomUUID } from 'crypto';
 import { ProcessManager } from '../lib/process-manager';
-import jsonrpcLite from 'jsonrpc-lite';
-const { JSONRPCRequest, JSONRPCResponse, parseJSONRPCRequest } = jsonrpcLite;
+import {
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  createErrorResponse,
+  isRequest,
+} from '../lib/mcp/jsonrpc';
 import { logger } from '../lib/logger';
-import { rateLimitMiddleware } from './middleware/rate-limit';
-import { cacheMiddleware } from './middleware/cache';
-import { z } from 'zod';
-
-const RequestSchema = z.object({
-  jsonrpc: z.literal('2.0'),
-  method: z.string(),
-  params: z.any().optional(),
-  id: z.union([z.string(), z.number()]).optional(),
-});
+import { createStreamableHTTPRouter } from './transports/streamable-http';
+import { createSSERouter } from './transports/sse';
+import { createGatewayRouter } from './gateway';
+import { dispatchBatch } from './transports/utils';
 
 export function createProxyRouter(processManager: ProcessManager) {
   const app = new Hono();
 
-  app.use('/*', cors());
-
-  app.post('/mcp/:serviceId/*', rateLimitMiddleware(), cacheMiddleware(), async (c) => {
-    const serviceId = c.req.param('serviceId');
-    const mcpProcess = processManager.getProcess(serviceId);
-
-    if (!mcpProcess) {
-      throw new HTTPException(404, { message: `Service ${serviceId} not found` });
-    }
-
-    const state = mcpProcess.getState();
-    if (state.status !== 'running') {
-      throw new HTTPException(503, { 
-        message: `Service ${serviceId} is not running`,
-        cause: { status: state.status, error: state.lastError },
-      });
-    }
+  app.use('/*', cors({ origin: '*', exposeHeaders: ['Mcp-Session-Id'] }));
 
-    try {
-      const body = await c.req.json();
-      const validatedRequest = RequestSchema.parse(body);
-      
-      const request = parseJSONRPCRequest(JSON.stringify(validatedRequest));
-      
-      if ('type' in request && request.type === 'invalid') {
-        return c.json({ 
-          jsonrpc: '2.0',
-          error: { code: -32600, message: 'Invalid Request' },
-          id: null,
-        }, 400);
-      }
-
-      const response = await mcpProcess.sendRequest(request as JSONRPCRequest);
-      
-      return c.json(response);
-    } catch (error) {
-      logger.error(`Proxy error for ${serviceId}:`, error);
-      
-      if (error instanceof z.ZodError) {
-        return c.json({
-          jsonrpc: '2.0',
-          error: { 
-            code: -32602, 
-            message: 'Invalid params',
-            data: error.errors,
-          },
-          id: null,
-        }, 400);
-      }
-      
-      return c.json({
-        jsonrpc: '2.0',
-        error: { 
-          code: -32603, 
-          message: error instanceof Error ? error.message : 'Internal error',
-        },
-        id: null,
-      }, 500);
-    }
-  });
+  // The gateway and legacy SSE routes go first so they are not taken by the
+  // Streamable HTTP `/mcp/:serviceId` routes
+  app.route('/', createGatewayRouter(processManager));
+  app.route('/', createSSERouter(processManager));
+  app.route('/', createStreamableHTTPRouter(processManager));
 
   app.get('/mcp/:serviceId/health', async (c) => {
     const serviceId = c.req.param('serviceId');
@@ -92,10 +38,18 @@ export function createProxyRouter(processManager: ProcessManager) {
     const state = mcpProcess.getState();
     const metrics = mcpProcess.getMetrics();
 
+    const serverInfo = mcpProcess.getServerInfo();
+
     return c.json({
       status: state.status,
       metrics,
+      health: mcpProcess.getHealth(),
       lastError: state.lastError,
+      serverInfo: serverInfo && {
+        ...serverInfo.serverInfo,
+        protocolVersion: serverInfo.protocolVersion,
+        capabilities: serverInfo.capabilities,
+      },
     });
   });
 
@@ -120,8 +74,8 @@ export function createWebSocketProxy(
       return;
     }
 
-    const mcpProcess = processManager.getProcess(serviceId);
-    if (!mcpProcess) {
+    const service = processManager.getProcess(serviceId);
+    if (!service) {
       ws.send(JSON.stringify({ 
         error: `Service ${serviceId} not found`,
       }));
@@ -129,8 +83,7 @@ export function createWebSocketProxy(
       return;
     }
 
-    const state = mcpProcess.getState();
-    if (state.status !== 'running') {
+    if (!service.canServe()) {
       ws.send(JSON.stringify({ 
         error: `Service ${serviceId} is not running`,
       }));
@@ -138,11 +91,8 @@ export function createWebSocketProxy(
       return;
     }
 
-    logger.info(`WebSocket connection established for service ${serviceId}`);
-
-    const notificationHandler = (notification: any) => {
-      ws.send(JSON.stringify(notification));
-    };
+    const sessionId = randomUUID();
+    logger.info(`WebSocket connection ${sessionId} established for service ${serviceId}`);
 
     const errorHandler = (error: string) => {
       ws.send(JSON.stringify({ 
@@ -151,24 +101,54 @@ export function createWebSocketProxy(
       }));
     };
 
-    mcpProcess.on('notification', notificationHandler);
-    mcpProcess.on('error', errorHandler);
+    // Isolated services spawn a process for this connection, so messages wait
+    // until it is ready
+    const ready = processManager.acquireSessionProcess(serviceId, sessionId, () => ws.close())
+      .then((mcpProcess) => {
+        mcpProcess.on('stderr', errorHandler);
+        mcpProcess.attachSession(sessionId, (message) => ws.send(JSON.stringify(message)));
+        return mcpProcess;
+      });
+
+    ready.catch((error) => {
+      ws.send(JSON.stringify({
+        error: error instanceof Error ? error.message : 'Could not create session',
+      }));
+      ws.close();
+    });
 
     ws.on('message', async (data) => {
       try {
-        const message = JSON.parse(data.toString());
-        const request = parseJSONRPCRequest(JSON.stringify(message));
+        const mcpProcess = await ready;
+        const payload = JSON.parse(data.toString());
+
+        if (Array.isArray(payload)) {
+          if (payload.length === 0) {
+            ws.send(JSON.stringify(createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request')));
+            return;
+          }
+
+          const responses = await dispatchBatch(mcpProcess, payload, { sessionId });
+          if (responses.length > 0) {
+            ws.send(JSON.stringify(responses));
+          }
+          return;
+        }
+
+        const validated = JSONRPCMessageSchema.safeParse(payload);
         
-        if ('type' in request && request.type === 'invalid') {
-          ws.send(JSON.stringify({ 
-            jsonrpc: '2.0',
-            error: { code: -32600, message: 'Invalid Request' },
-            id: null,
-          }));
+        if (!validated.success) {
+          ws.send(JSON.stringify(createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request')));
+          return;
+        }
+
+        const message = validated.data as JSONRPCMessage;
+        if (!isRequest(message)) {
+          mcpProcess.send(message, sessionId);
           return;
         }
 
-        const response = await mcpProcess.sendRequest(request as JSONRPCRequest);
+        const response = await mcpProcess.sendRequest(message, { sessionId });
         ws.send(JSON.stringify(response));
       } catch (error) {
         logger.error(`WebSocket error for ${serviceId}:`, error);
@@ -184,9 +164,12 @@ export function createWebSocketProxy(
     });
 
     ws.on('close', () => {
-      logger.info(`WebSocket connection closed for service ${serviceId}`);
-      mcpProcess.removeListener('notification', notificationHandler);
-      mcpProcess.removeListener('error', errorHandler);
+      logger.info(`WebSocket connection ${sessionId} closed for service ${serviceId}`);
+      ready.then((mcpProcess) => {
+        mcpProcess.removeListener('stderr', errorHandler);
+        mcpProcess.detachSession(sessionId);
+        return processManager.releaseSessionProcess(sessionId);
+      }).catch(() => {});
     });
 
     ws.on('error', (error) => {
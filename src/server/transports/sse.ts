@@ -0,0 +1,155 @@
+import { Hono } from 'hono';
+import { streamSSE, SSEStreamingApi } from 'hono/streaming';
+import { HTTPException } from 'hono/http-exception';
+import { randomUUID } from 'crypto';
+import { MCPProcess, ProcessManager } from '../../lib/process-manager';
+import {
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  createErrorResponse,
+  isRequest,
+} from '../../lib/mcp/jsonrpc';
+import { logger } from '../../lib/logger';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { KEEPALIVE_INTERVAL, dispatchBatch, getRunningProcess } from './utils';
+
+/**
+ * One client of the legacy HTTP+SSE transport. Everything the client receives,
+ * including responses to its own POSTs, goes over the single GET stream.
+ */
+class SSESession {
+  constructor(
+    readonly id: string,
+    readonly serviceId: string,
+    // The service's shared process, or the session's own in isolated mode
+    readonly mcpProcess: MCPProcess,
+    private stream: SSEStreamingApi,
+  ) {
+    this.mcpProcess.attachSession(this.id, (message) => this.send(message));
+  }
+
+  send(message: JSONRPCMessage | JSONRPCMessage[]): void {
+    this.stream.writeSSE({ event: 'message', data: JSON.stringify(message) }).catch((error) => {
+      logger.debug(`Failed to write to SSE session ${this.id}:`, error);
+    });
+  }
+
+  close(): void {
+    this.mcpProcess.detachSession(this.id);
+  }
+}
+
+/**
+ * MCP HTTP+SSE transport (protocol revision 2024-11-05), kept for clients that
+ * have not moved to Streamable HTTP. GET `/mcp/:serviceId/sse` opens the
+ * stream and announces the paired `/messages?sessionId=` endpoint.
+ */
+export function createSSERouter(processManager: ProcessManager) {
+  const app = new Hono();
+  const sessions = new Map<string, SSESession>();
+
+  app.get('/mcp/:serviceId/sse', async (c) => {
+    const serviceId = c.req.param('serviceId');
+    getRunningProcess(processManager, serviceId);
+
+    const sessionId = randomUUID();
+    // Ends the stream early if the session's process is reaped or crashes
+    let endStream = () => {};
+
+    let mcpProcess: MCPProcess;
+    try {
+      mcpProcess = await processManager.acquireSessionProcess(serviceId, sessionId, () => endStream());
+    } catch (error) {
+      logger.warn(`Could not create SSE session for service ${serviceId}:`, error);
+      throw new HTTPException(503, {
+        message: error instanceof Error ? error.message : 'Could not create session',
+      });
+    }
+
+    return streamSSE(c, async (stream) => {
+      const session = new SSESession(sessionId, serviceId, mcpProcess, stream);
+      sessions.set(session.id, session);
+      logger.info(`SSE session ${session.id} opened for service ${serviceId}`);
+
+      await stream.writeSSE({
+        event: 'endpoint',
+        data: `/mcp/${encodeURIComponent(serviceId)}/messages?sessionId=${session.id}`,
+      });
+
+      const keepalive = setInterval(() => {
+        stream.write(': keepalive\n\n').catch(() => {});
+      }, KEEPALIVE_INTERVAL);
+
+      await new Promise<void>((resolve) => {
+        endStream = resolve;
+        stream.onAbort(resolve);
+      });
+
+      clearInterval(keepalive);
+      session.close();
+      sessions.delete(session.id);
+      await processManager.releaseSessionProcess(session.id);
+      logger.info(`SSE session ${session.id} closed for service ${serviceId}`);
+    });
+  });
+
+  app.post('/mcp/:serviceId/messages', rateLimitMiddleware(), async (c) => {
+    const serviceId = c.req.param('serviceId');
+    const sessionId = c.req.query('sessionId');
+
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session || session.serviceId !== serviceId) {
+      return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Session not found'), 404);
+    }
+
+    getRunningProcess(processManager, serviceId);
+    const { mcpProcess } = session;
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(createErrorResponse(null, ErrorCode.ParseError, 'Parse error'), 400);
+    }
+
+    if (Array.isArray(body)) {
+      if (body.length === 0) {
+        return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request'), 400);
+      }
+
+      dispatchBatch(mcpProcess, body, { sessionId: session.id }).then((responses) => {
+        if (responses.length > 0) {
+          session.send(responses);
+        }
+      });
+      return c.text('Accepted', 202);
+    }
+
+    const validated = JSONRPCMessageSchema.safeParse(body);
+    if (!validated.success) {
+      return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request', validated.error.errors), 400);
+    }
+    const message = validated.data as JSONRPCMessage;
+
+    if (!isRequest(message)) {
+      mcpProcess.send(message, session.id);
+      return c.text('Accepted', 202);
+    }
+
+    mcpProcess.sendRequest(message, { sessionId: session.id })
+      .then(response => session.send(response))
+      .catch((error) => {
+        logger.error(`Proxy error for ${serviceId}:`, error);
+        session.send(createErrorResponse(
+          message.id,
+          ErrorCode.InternalError,
+          error instanceof Error ? error.message : 'Internal error',
+        ));
+      });
+
+    return c.text('Accepted', 202);
+  });
+
+  return app;
+}
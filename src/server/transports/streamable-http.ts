@@ -0,0 +1,383 @@
+import { Hono, Context } from 'hono';
+import { streamSSE, SSEStreamingApi } from 'hono/streaming';
+import { randomUUID } from 'crypto';
+import { MCPProcess, ProcessManager, RequestContext } from '../../lib/process-manager';
+import { DEFAULT_PROTOCOL_VERSION, SUPPORTED_PROTOCOL_VERSIONS } from '../../lib/mcp/protocol';
+import {
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  createErrorResponse,
+  isRequest,
+} from '../../lib/mcp/jsonrpc';
+import { logger } from '../../lib/logger';
+import { rateLimitMiddleware } from '../middleware/rate-limit';
+import { cacheMiddleware } from '../middleware/cache';
+import {
+  KEEPALIVE_INTERVAL,
+  acceptsEventStream,
+  batchHasRequests,
+  dispatchBatch,
+  dispatchMessage,
+  getRunningProcess,
+} from './utils';
+
+const SESSION_HEADER = 'Mcp-Session-Id';
+const PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+const SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+/**
+ * One client of the Streamable HTTP transport. Server-initiated messages are
+ * written to the standalone GET stream when the client has one open, otherwise
+ * to the most recent POST stream that is still waiting for its response.
+ */
+class StreamableHTTPSession {
+  lastActivity = Date.now();
+  private standaloneStream?: SSEStreamingApi;
+  private closeStandaloneStream?: () => void;
+  private requestStreams: SSEStreamingApi[] = [];
+
+  constructor(
+    readonly id: string,
+    readonly serviceId: string,
+    // The service's shared process, or the session's own in isolated mode
+    readonly mcpProcess: MCPProcess,
+  ) {
+    this.mcpProcess.attachSession(this.id, (message) => this.send(message));
+  }
+
+  send(message: JSONRPCMessage): void {
+    const stream = this.standaloneStream ?? this.requestStreams[this.requestStreams.length - 1];
+
+    if (!stream) {
+      logger.debug(`Dropping message for session ${this.id} of ${this.serviceId}: no open stream`);
+      return;
+    }
+
+    stream.writeSSE({ event: 'message', data: JSON.stringify(message) }).catch((error) => {
+      logger.debug(`Failed to write to session ${this.id}:`, error);
+    });
+  }
+
+  touch(): void {
+    this.lastActivity = Date.now();
+  }
+
+  hasStandaloneStream(): boolean {
+    return this.standaloneStream !== undefined;
+  }
+
+  isIdle(now: number): boolean {
+    return !this.standaloneStream &&
+      this.requestStreams.length === 0 &&
+      now - this.lastActivity > SESSION_IDLE_TIMEOUT;
+  }
+
+  attachRequestStream(stream: SSEStreamingApi): void {
+    this.requestStreams.push(stream);
+  }
+
+  detachRequestStream(stream: SSEStreamingApi): void {
+    this.requestStreams = this.requestStreams.filter(s => s !== stream);
+    this.touch();
+  }
+
+  /**
+   * Holds the standalone stream open until the client disconnects or the
+   * session is closed.
+   */
+  async openStandaloneStream(stream: SSEStreamingApi): Promise<void> {
+    this.standaloneStream = stream;
+
+    const keepalive = setInterval(() => {
+      stream.write(': keepalive\n\n').catch(() => {});
+    }, KEEPALIVE_INTERVAL);
+
+    await new Promise<void>((resolve) => {
+      this.closeStandaloneStream = resolve;
+      stream.onAbort(resolve);
+    });
+
+    clearInterval(keepalive);
+    if (this.standaloneStream === stream) {
+      this.standaloneStream = undefined;
+      this.closeStandaloneStream = undefined;
+    }
+    this.touch();
+  }
+
+  close(): void {
+    this.mcpProcess.detachSession(this.id);
+    this.closeStandaloneStream?.();
+  }
+}
+
+async function forwardRequest(
+  mcpProcess: MCPProcess,
+  request: JSONRPCRequest,
+  context: RequestContext,
+): Promise<{ response: JSONRPCResponse; failed: boolean }> {
+  try {
+    return { response: await mcpProcess.sendRequest(request, context), failed: false };
+  } catch (error) {
+    logger.error(`Proxy error for ${mcpProcess.config.id}:`, error);
+    return {
+      response: createErrorResponse(
+        request.id,
+        ErrorCode.InternalError,
+        error instanceof Error ? error.message : 'Internal error',
+      ),
+      failed: true,
+    };
+  }
+}
+
+/**
+ * MCP Streamable HTTP transport (protocol revision 2025-03-26 and later).
+ *
+ * POST carries client messages and answers requests either as plain JSON or,
+ * when the client accepts it, as an SSE stream. GET opens a standalone stream
+ * for server-initiated messages and DELETE ends the session. Clients that never
+ * send `initialize` are served without a session, which keeps the original
+ * single-request JSON behaviour working on `/mcp/:serviceId/*`. JSON-RPC
+ * batches are accepted on POST and answered with an ordered array.
+ */
+export function createStreamableHTTPRouter(processManager: ProcessManager) {
+  const app = new Hono();
+  const sessions = new Map<string, StreamableHTTPSession>();
+
+  const lookupSession = (c: Context, serviceId: string) => {
+    const sessionId = c.req.header(SESSION_HEADER);
+
+    if (!sessionId) {
+      return { error: c.json(createErrorResponse(null, ErrorCode.InvalidRequest, `Missing ${SESSION_HEADER} header`), 400) };
+    }
+
+    const session = sessions.get(sessionId);
+    if (!session || session.serviceId !== serviceId) {
+      return { error: c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Session not found'), 404) };
+    }
+
+    session.touch();
+    return { session };
+  };
+
+  // Sessions keep the revision negotiated in `initialize`; the header only
+  // decides translation for sessionless requests
+  const readProtocolVersion = (c: Context) => {
+    const version = c.req.header(PROTOCOL_VERSION_HEADER);
+
+    if (version && !SUPPORTED_PROTOCOL_VERSIONS.includes(version)) {
+      return { error: c.json(createErrorResponse(null, ErrorCode.InvalidRequest, `Unsupported protocol version: ${version}`), 400) };
+    }
+
+    return { protocolVersion: version ?? DEFAULT_PROTOCOL_VERSION };
+  };
+
+  const closeSession = (session: StreamableHTTPSession) => {
+    session.close();
+    sessions.delete(session.id);
+    processManager.releaseSessionProcess(session.id).catch((error) => {
+      logger.error(`Failed to release process of session ${session.id}:`, error);
+    });
+  };
+
+  const createSession = async (c: Context, serviceId: string) => {
+    const sessionId = randomUUID();
+
+    let mcpProcess: MCPProcess;
+    try {
+      mcpProcess = await processManager.acquireSessionProcess(serviceId, sessionId, () => {
+        const session = sessions.get(sessionId);
+        if (session) closeSession(session);
+      });
+    } catch (error) {
+      logger.warn(`Could not create session for service ${serviceId}:`, error);
+      return {
+        error: c.json(createErrorResponse(
+          null,
+          ErrorCode.InternalError,
+          error instanceof Error ? error.message : 'Could not create session',
+        ), 503),
+      };
+    }
+
+    const session = new StreamableHTTPSession(sessionId, serviceId, mcpProcess);
+    sessions.set(session.id, session);
+    c.header(SESSION_HEADER, session.id);
+    logger.info(`Streamable HTTP session ${session.id} created for service ${serviceId}`);
+
+    return { session };
+  };
+
+  const handleBatch = async (c: Context, service: MCPProcess, batch: unknown[], protocolVersion: string) => {
+    if (batch.length === 0) {
+      return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request'), 400);
+    }
+
+    let session: StreamableHTTPSession | undefined;
+    if (c.req.header(SESSION_HEADER)) {
+      const lookup = lookupSession(c, service.config.id);
+      if (lookup.error) return lookup.error;
+      session = lookup.session;
+    }
+    const mcpProcess = session?.mcpProcess ?? service;
+
+    if (!batchHasRequests(batch)) {
+      await dispatchBatch(mcpProcess, batch, { sessionId: session?.id, protocolVersion });
+      return c.body(null, 202);
+    }
+
+    if (!acceptsEventStream(c)) {
+      return c.json(await dispatchBatch(mcpProcess, batch, {
+        sessionId: session?.id,
+        signal: c.req.raw.signal,
+        protocolVersion,
+      }));
+    }
+
+    // Each response is written as soon as it resolves rather than waiting for
+    // the whole batch
+    return streamSSE(c, async (stream) => {
+      const controller = new AbortController();
+      stream.onAbort(() => controller.abort());
+      session?.attachRequestStream(stream);
+      try {
+        await Promise.all(batch.map(async (item) => {
+          const response = await dispatchMessage(mcpProcess, item, {
+            sessionId: session?.id,
+            signal: controller.signal,
+            protocolVersion,
+          });
+          if (response) {
+            await stream.writeSSE({ event: 'message', data: JSON.stringify(response) });
+          }
+        }));
+      } finally {
+        session?.detachRequestStream(stream);
+      }
+    });
+  };
+
+  const handlePost = async (c: Context) => {
+    const serviceId = c.req.param('serviceId')!;
+    const service = getRunningProcess(processManager, serviceId);
+
+    const version = readProtocolVersion(c);
+    if (version.error) return version.error;
+    const { protocolVersion } = version;
+
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json(createErrorResponse(null, ErrorCode.ParseError, 'Parse error'), 400);
+    }
+
+    if (Array.isArray(body)) {
+      return handleBatch(c, service, body, protocolVersion);
+    }
+
+    const validated = JSONRPCMessageSchema.safeParse(body);
+    if (!validated.success) {
+      return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request', validated.error.errors), 400);
+    }
+    const message = validated.data as JSONRPCMessage;
+
+    let session: StreamableHTTPSession | undefined;
+    if (c.req.header(SESSION_HEADER)) {
+      const lookup = lookupSession(c, serviceId);
+      if (lookup.error) return lookup.error;
+      session = lookup.session;
+    } else if (isRequest(message) && message.method === 'initialize') {
+      const created = await createSession(c, serviceId);
+      if (created.error) return created.error;
+      session = created.session;
+    }
+    const mcpProcess = session?.mcpProcess ?? service;
+
+    if (!isRequest(message)) {
+      try {
+        mcpProcess.send(message, session?.id);
+      } catch (error) {
+        logger.error(`Proxy error for ${serviceId}:`, error);
+        return c.json(createErrorResponse(null, ErrorCode.InternalError, 'Internal error'), 500);
+      }
+      return c.body(null, 202);
+    }
+
+    if (!acceptsEventStream(c)) {
+      const { response, failed } = await forwardRequest(mcpProcess, message, {
+        sessionId: session?.id,
+        signal: c.req.raw.signal,
+        protocolVersion,
+      });
+      return c.json(response, failed ? 500 : 200);
+    }
+
+    return streamSSE(c, async (stream) => {
+      const controller = new AbortController();
+      stream.onAbort(() => controller.abort());
+      session?.attachRequestStream(stream);
+      try {
+        const { response } = await forwardRequest(mcpProcess, message, {
+          sessionId: session?.id,
+          signal: controller.signal,
+          protocolVersion,
+        });
+        await stream.writeSSE({ event: 'message', data: JSON.stringify(response) });
+      } finally {
+        session?.detachRequestStream(stream);
+      }
+    });
+  };
+
+  app.post('/mcp/:serviceId', rateLimitMiddleware(), cacheMiddleware(), handlePost);
+  app.post('/mcp/:serviceId/*', rateLimitMiddleware(), cacheMiddleware(), handlePost);
+
+  app.get('/mcp/:serviceId', async (c) => {
+    const serviceId = c.req.param('serviceId');
+    getRunningProcess(processManager, serviceId);
+
+    if (!acceptsEventStream(c)) {
+      return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Client must accept text/event-stream'), 406);
+    }
+
+    const lookup = lookupSession(c, serviceId);
+    if (lookup.error) return lookup.error;
+    const session = lookup.session;
+
+    if (session.hasStandaloneStream()) {
+      return c.json(createErrorResponse(null, ErrorCode.InvalidRequest, 'Only one stream is allowed per session'), 409);
+    }
+
+    return streamSSE(c, async (stream) => {
+      await session.openStandaloneStream(stream);
+    });
+  });
+
+  app.delete('/mcp/:serviceId', async (c) => {
+    const serviceId = c.req.param('serviceId');
+
+    const lookup = lookupSession(c, serviceId);
+    if (lookup.error) return lookup.error;
+
+    closeSession(lookup.session);
+    logger.info(`Streamable HTTP session ${lookup.session.id} terminated for service ${serviceId}`);
+
+    return c.body(null, 200);
+  });
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const session of sessions.values()) {
+      if (session.isIdle(now)) {
+        closeSession(session);
+      }
+    }
+  }, 60000);
+
+  return app;
+}
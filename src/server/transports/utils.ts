@@ -0,0 +1,95 @@
+import { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { MCPProcess, ProcessManager, RequestContext } from '../../lib/process-manager';
+import {
+  ErrorCode,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCResponse,
+  createErrorResponse,
+  isRequest,
+} from '../../lib/mcp/jsonrpc';
+import { logger } from '../../lib/logger';
+
+// Comment lines sent on idle event streams so proxies keep them open
+export const KEEPALIVE_INTERVAL = 25000;
+
+export function getRunningProcess(processManager: ProcessManager, serviceId: string): MCPProcess {
+  const mcpProcess = processManager.getProcess(serviceId);
+
+  if (!mcpProcess) {
+    throw new HTTPException(404, { message: `Service ${serviceId} not found` });
+  }
+
+  // Idle services are started by the request itself
+  const state = mcpProcess.getState();
+  if (!mcpProcess.canServe()) {
+    throw new HTTPException(503, {
+      message: `Service ${serviceId} is not running`,
+      cause: { status: state.status, error: state.lastError },
+    });
+  }
+
+  return mcpProcess;
+}
+
+export function acceptsEventStream(c: Context): boolean {
+  return (c.req.header('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Forwards one element of a client payload. Resolves with the response for
+ * requests and invalid elements, and with nothing for notifications and
+ * responses.
+ */
+export async function dispatchMessage(
+  mcpProcess: MCPProcess,
+  payload: unknown,
+  context: RequestContext = {},
+): Promise<JSONRPCResponse | undefined> {
+  const validated = JSONRPCMessageSchema.safeParse(payload);
+  if (!validated.success) {
+    return createErrorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request');
+  }
+  const message = validated.data as JSONRPCMessage;
+
+  if (!isRequest(message)) {
+    try {
+      mcpProcess.send(message, context.sessionId);
+    } catch (error) {
+      logger.error(`Proxy error for ${mcpProcess.config.id}:`, error);
+    }
+    return undefined;
+  }
+
+  try {
+    return await mcpProcess.sendRequest(message, context);
+  } catch (error) {
+    logger.error(`Proxy error for ${mcpProcess.config.id}:`, error);
+    return createErrorResponse(
+      message.id,
+      ErrorCode.InternalError,
+      error instanceof Error ? error.message : 'Internal error',
+    );
+  }
+}
+
+/**
+ * Dispatches a JSON-RPC batch concurrently and returns the responses in the
+ * order of the requests that produced them.
+ */
+export async function dispatchBatch(
+  mcpProcess: MCPProcess,
+  batch: unknown[],
+  context: RequestContext = {},
+): Promise<JSONRPCResponse[]> {
+  const responses = await Promise.all(batch.map(item => dispatchMessage(mcpProcess, item, context)));
+  return responses.filter((response): response is JSONRPCResponse => response !== undefined);
+}
+
+export function batchHasRequests(batch: unknown[]): boolean {
+  return batch.some((item) => {
+    const validated = JSONRPCMessageSchema.safeParse(item);
+    return !validated.success || isRequest(validated.data as JSONRPCMessage);
+  });
+}